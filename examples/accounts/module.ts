@@ -1,10 +1,13 @@
 import { z } from 'zod';
 
 import {
+  createDerivedModule,
   createModule,
   defineRoute,
   defineView,
+  validateModule,
   CONTRACT_VERSION,
+  type ModuleDiagnostic,
   type RequestContext,
   type SSRContext
 } from '@webstir-io/module-contract';
@@ -96,6 +99,23 @@ export const accountsModule = createModule({
   }
 });
 
+// Same module with manifest.routes/views derived from the specs.
+export const derivedAccountsModule = createDerivedModule({
+  manifest: {
+    name: '@demo/accounts',
+    version: '0.0.1',
+    kind: 'backend',
+    capabilities: ['auth', 'db', 'views']
+  },
+  routes: [getAccountRoute],
+  views: [accountView]
+});
+
+// Manifest and specs must agree; providers forward these into ModuleBuildManifest.diagnostics.
+export const accountsDiagnostics: readonly ModuleDiagnostic[] = validateModule(accountsModule, {
+  file: 'examples/accounts/module.ts'
+});
+
 // Ensure inference works as expected.
 type LoadedAccount = Awaited<ReturnType<typeof accountView.load>>;
 const _: LoadedAccount = {
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+import { createDerivedModule, defineRoute, type RequestContext, type RouteDefinition } from '@webstir-io/module-contract';
+import { fromTsRestRouter, toTsRestRouter } from '@webstir-io/module-contract/ts-rest';
+
+const accountSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email()
+});
+
+const accountParamsSchema = z.object({ id: z.string().uuid() });
+
+const detailRoute = defineRoute<RequestContext, typeof accountParamsSchema, undefined, undefined, typeof accountSchema>({
+  definition: {
+    name: 'accounts.detail',
+    method: 'GET',
+    path: '/accounts/:id',
+    summary: 'Fetch an account by id',
+    tags: ['accounts'],
+    input: { params: { kind: 'zod', name: 'AccountsDetailParams' } },
+    output: { body: { kind: 'zod', name: 'AccountsDetailResponse' }, status: 200 },
+    errors: [{ code: 'not_found', message: 'Account missing' }],
+    auth: { roles: ['admin'] },
+    cache: { ttlSeconds: 60, vary: { session: true } }
+  },
+  schemas: {
+    params: accountParamsSchema,
+    response: accountSchema
+  },
+  handler: async (ctx) => ({ status: 200, body: { id: ctx.params.id, email: 'demo@example.com' } })
+});
+
+const createRoute = defineRoute<RequestContext, undefined, undefined, typeof accountSchema, { 201: typeof accountSchema; 409: {} }>({
+  definition: {
+    name: 'accounts.create',
+    method: 'POST',
+    path: '/accounts',
+    input: { body: { kind: 'zod', name: 'AccountsCreateBody' } },
+    output: {
+      status: 201,
+      responses: { 201: { body: { kind: 'zod', name: 'AccountsCreateResponse' } }, 409: {} }
+    },
+    errors: [{ code: 'conflict', message: 'Email already registered' }],
+    middleware: ['audit'],
+    transactional: 'serializable'
+  },
+  schemas: {
+    body: accountSchema,
+    response: { 201: accountSchema, 409: {} }
+  },
+  handler: async (ctx) => ({ status: 201, body: ctx.body })
+});
+
+const sourceRoutes = [detailRoute, createRoute];
+
+export const tsRestAccountsModule = createDerivedModule({
+  manifest: { name: '@demo/accounts-ts-rest', version: '0.0.1', kind: 'backend' },
+  routes: sourceRoutes
+});
+
+export const accountsContract = toTsRestRouter(tsRestAccountsModule, { baseName: 'accounts' });
+
+// Handlers are the only part of a route that does not travel with the contract.
+export const roundTripRoutes = fromTsRestRouter<RequestContext>({
+  router: accountsContract,
+  baseName: 'accounts',
+  createRoute: ({ key }) => ({
+    handler: async (ctx) =>
+      key === 'detail' ? { status: 200, body: { id: ctx.params.id, email: 'demo@example.com' } } : { status: 201, body: ctx.body }
+  })
+});
+
+export const roundTripModule = createDerivedModule({
+  manifest: { name: '@demo/accounts-ts-rest', version: '0.0.1', kind: 'backend' },
+  routes: roundTripRoutes
+});
+
+// Names of routes whose definition changed on the way through the contract; expected to be empty.
+export const roundTripMismatches: readonly string[] = sourceRoutes
+  .filter((route, index) => {
+    const restored: RouteDefinition | undefined = roundTripRoutes[index]?.definition;
+    return JSON.stringify(restored) !== JSON.stringify(route.definition);
+  })
+  .map((route) => route.definition.name);
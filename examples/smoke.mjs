@@ -0,0 +1,187 @@
+#!/usr/bin/env node
+
+// Runs the main runtime paths against the built package (run `npm run build` first):
+// dispatching, route caching, the typed client, manifest diffs, and the OpenAPI and ts-rest adapters.
+
+import assert from 'node:assert/strict';
+
+import { z } from 'zod';
+
+import {
+  createClient,
+  createDerivedModule,
+  createDispatcher,
+  defineRoute,
+  diffManifests,
+  withRouteCache
+} from '@webstir-io/module-contract';
+import { fromOpenApiDocument } from '@webstir-io/module-contract/openapi';
+import { createMemoryCache, createTestContext } from '@webstir-io/module-contract/testing';
+import { fromTsRestRouter, toTsRestRouter } from '@webstir-io/module-contract/ts-rest';
+
+const ACCOUNT_ID = '00000000-0000-4000-8000-000000000000';
+
+const accountSchema = z.object({ id: z.string().uuid(), email: z.string().email() });
+
+let loads = 0;
+
+const getAccount = defineRoute({
+  definition: {
+    name: 'getAccount',
+    method: 'GET',
+    path: '/accounts/:id',
+    errors: [{ code: 'not_found', message: 'Account missing' }],
+    cache: { ttlSeconds: 60 }
+  },
+  schemas: {
+    params: z.object({ id: z.string().uuid() }),
+    response: accountSchema
+  },
+  handler: async (ctx) => {
+    loads += 1;
+    return ctx.params.id === ACCOUNT_ID
+      ? { body: { id: ctx.params.id, email: 'demo@example.com' } }
+      : { status: 404, errors: [{ code: 'not_found', message: 'Account missing' }] };
+  }
+});
+
+const createAccount = defineRoute({
+  definition: { name: 'createAccount', method: 'POST', path: '/accounts', cache: { invalidates: ['accounts'] } },
+  schemas: {
+    body: z.object({ email: z.string().email() }),
+    response: { 201: accountSchema }
+  },
+  handler: async (ctx) => ({ status: 201, body: { id: ACCOUNT_ID, email: ctx.body.email } })
+});
+
+const accountsModule = createDerivedModule({
+  manifest: { name: '@demo/accounts', version: '1.0.0', kind: 'backend' },
+  routes: [getAccount, createAccount]
+});
+
+const checks = [];
+const check = (name, run) => checks.push({ name, run });
+
+check('dispatcher validates input and maps errors', async () => {
+  const dispatcher = createDispatcher(accountsModule);
+  const dispatch = (method, path, body) => dispatcher.dispatch({ method, path, body, context: createTestContext() });
+
+  const found = await dispatch('GET', `/accounts/${ACCOUNT_ID}`);
+  assert.equal(found.status, 200);
+  assert.deepEqual(found.body, { id: ACCOUNT_ID, email: 'demo@example.com' });
+
+  assert.equal((await dispatch('GET', '/accounts/not-a-uuid')).status, 400);
+  assert.equal((await dispatch('GET', `/accounts/${ACCOUNT_ID.replace(/0$/, '1')}`)).status, 404);
+  assert.equal((await dispatch('DELETE', '/accounts')).status, 405);
+  assert.equal((await dispatch('POST', '/accounts', { email: 'nope' })).status, 400);
+  assert.equal((await dispatch('POST', '/accounts', { email: 'new@example.com' })).status, 201);
+});
+
+check('route cache serves hits without running the handler', async () => {
+  const context = createTestContext();
+  const cached = withRouteCache(createDispatcher(accountsModule), { cache: createMemoryCache({ now: context.clock.now }), namespace: 'accounts' });
+  const request = { method: 'GET', path: `/accounts/${ACCOUNT_ID}`, context };
+
+  loads = 0;
+  const miss = await cached.dispatch(request);
+  const hit = await cached.dispatch(request);
+  assert.equal(miss.headers['x-cache'], 'MISS');
+  assert.equal(hit.headers['x-cache'], 'HIT');
+  assert.deepEqual(hit.body, miss.body);
+  assert.equal(loads, 1);
+});
+
+check('client calls routes through fetch and decodes errors', async () => {
+  const dispatcher = createDispatcher(accountsModule);
+  const fetch = async (url, init) => {
+    const { pathname, search } = new URL(url);
+    const result = await dispatcher.dispatch({
+      method: init.method,
+      path: `${pathname}${search}`,
+      headers: init.headers,
+      body: init.body === undefined ? undefined : JSON.parse(init.body),
+      context: createTestContext()
+    });
+    return new Response(JSON.stringify(result.body), { status: result.status, headers: result.headers });
+  };
+  const api = createClient(accountsModule.routes, { baseUrl: 'http://accounts.test/', fetch });
+
+  const found = await api.getAccount({ params: { id: ACCOUNT_ID } });
+  assert.equal(found.ok, true);
+  assert.equal(found.body.email, 'demo@example.com');
+
+  const missing = await api.getAccount({ params: { id: ACCOUNT_ID.replace(/0$/, '1') } });
+  assert.equal(missing.ok, false);
+  assert.equal(missing.status, 404);
+  assert.equal(missing.errors[0].code, 'not_found');
+
+  const created = await api.createAccount({ body: { email: 'new@example.com' } });
+  assert.equal(created.ok && created.status, 201);
+});
+
+check('manifest diff flags removed routes as breaking', async () => {
+  const previous = accountsModule.manifest;
+  const next = { ...previous, version: '1.1.0', routes: previous.routes.filter((route) => route.name !== 'createAccount') };
+  const diff = diffManifests(previous, next);
+
+  assert.equal(diff.breaking, true);
+  assert.equal(diff.bump, 'major');
+  assert.equal(diff.suggestedVersion, '2.0.0');
+  assert.ok(diff.diagnostics.some((diagnostic) => diagnostic.severity === 'error'));
+});
+
+check('OpenAPI importer produces routes the dispatcher validates', async () => {
+  const { routes, diagnostics } = fromOpenApiDocument({
+    document: {
+      openapi: '3.1.0',
+      paths: {
+        '/accounts': {
+          get: {
+            operationId: 'listAccounts',
+            parameters: [{ name: 'limit', in: 'query', required: true, schema: { type: 'integer', minimum: 1 } }],
+            responses: {
+              200: { description: 'Accounts', content: { 'application/json': { schema: { type: 'array', items: { type: 'string' } } } } }
+            }
+          }
+        }
+      }
+    },
+    baseName: 'accounts',
+    createRoute: () => ({ handler: async (ctx) => ({ status: 200, body: Array.from({ length: ctx.query.limit }, (_, index) => `account-${index}`) }) })
+  });
+  assert.deepEqual(diagnostics, []);
+  assert.equal(routes[0].definition.name, 'accounts.listAccounts');
+
+  const dispatcher = createDispatcher(createDerivedModule({ manifest: { name: '@demo/imported', version: '1.0.0', kind: 'backend' }, routes }));
+  const listed = await dispatcher.dispatch({ method: 'GET', path: '/accounts?limit=2', context: createTestContext() });
+  assert.equal(listed.status, 200);
+  assert.deepEqual(listed.body, ['account-0', 'account-1']);
+  assert.equal((await dispatcher.dispatch({ method: 'GET', path: '/accounts?limit=0', context: createTestContext() })).status, 400);
+});
+
+check('ts-rest round trip reproduces route definitions', async () => {
+  const specs = fromTsRestRouter({
+    router: toTsRestRouter(accountsModule),
+    createRoute: () => ({ handler: async () => ({ status: 200, body: undefined }) })
+  });
+  assert.deepEqual(
+    specs.map((spec) => JSON.parse(JSON.stringify(spec.definition))),
+    accountsModule.routes.map((spec) => JSON.parse(JSON.stringify(spec.definition)))
+  );
+});
+
+let failed = 0;
+for (const { name, run } of checks) {
+  try {
+    await run();
+    console.log(`[smoke] ok   ${name}`);
+  } catch (error) {
+    failed += 1;
+    console.error(`[smoke] FAIL ${name}`);
+    console.error(error);
+  }
+}
+
+if (failed > 0) {
+  process.exitCode = 1;
+}
@@ -4,14 +4,13 @@ import { mkdir, writeFile } from 'node:fs/promises';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-import { zodToJsonSchema } from 'zod-to-json-schema';
-
 import {
   moduleErrorSchema,
   moduleManifestSchema,
   routeDefinitionSchema,
   routeInputSchema,
   routeOutputSchema,
+  toJsonSchema,
   viewDefinitionSchema
 } from '../dist/index.js';
 
@@ -29,15 +28,9 @@ const schemaEntries = [
   ['module-error', moduleErrorSchema]
 ];
 
-const toJson = (name, schema) =>
-  zodToJsonSchema(schema, name, {
-    target: 'jsonSchema7',
-    $refStrategy: 'none'
-  });
-
 await Promise.all(
   schemaEntries.map(async ([name, schema]) => {
-    const json = toJson(name, schema);
+    const json = toJsonSchema(schema, { name, refStrategy: 'root' });
     const filePath = join(schemaDir, `${name}.schema.json`);
     const contents = `${JSON.stringify(json, null, 2)}\n`;
     await writeFile(filePath, contents, 'utf8');
@@ -0,0 +1,573 @@
+import { z } from 'zod';
+
+import type { JsonSchema } from '../generators/json-schema.js';
+import type {
+  AuthRequirement,
+  HttpMethod,
+  ModuleDiagnostic,
+  ModuleError,
+  RequestContext,
+  RouteHandler,
+  RouteOutputDefinition,
+  RouteResponseMap,
+  RouteResponseSchema,
+  RouteSpec,
+  SchemaReference
+} from '../index.js';
+
+/** The parts of an OpenAPI 3.x document the importer reads; everything else is ignored or reported. */
+export interface OpenApiSourceDocument {
+  readonly openapi?: string;
+  readonly swagger?: string;
+  readonly paths?: Record<string, Record<string, unknown>>;
+  readonly components?: {
+    readonly schemas?: Record<string, JsonSchema>;
+    readonly parameters?: Record<string, unknown>;
+    readonly requestBodies?: Record<string, unknown>;
+    readonly responses?: Record<string, unknown>;
+    readonly headers?: Record<string, unknown>;
+  };
+  readonly security?: readonly Record<string, readonly string[]>[];
+  readonly webhooks?: Record<string, unknown>;
+  readonly [key: string]: unknown;
+}
+
+export interface OpenApiOperationInfo {
+  /** Default route name: the `operationId` (or `<method><Path>` without one), prefixed by `baseName`. */
+  readonly name: string;
+  readonly operationId?: string;
+  readonly method: HttpMethod;
+  /** Webstir path pattern (`/accounts/:id`). */
+  readonly path: string;
+  /** Path as written in the document (`/accounts/{id}`). */
+  readonly openApiPath: string;
+  readonly operation: Record<string, unknown>;
+}
+
+export interface OpenApiRouteConfig<TContext extends RequestContext> {
+  readonly handler: RouteHandler<TContext, any, any, any, any>;
+  readonly name?: string;
+  readonly summary?: string;
+  readonly description?: string;
+  readonly tags?: readonly string[];
+  /** Status used when the handler omits one; defaults to the operation's only 2xx response. */
+  readonly successStatus?: number;
+  /** Replaces the requirement derived from `security`. */
+  readonly auth?: AuthRequirement;
+  readonly errors?: readonly ModuleError[];
+  readonly errorSchemas?: readonly z.ZodTypeAny[];
+}
+
+export interface FromOpenApiOptions<TContext extends RequestContext> {
+  readonly document: OpenApiSourceDocument;
+  readonly baseName?: string;
+  /** Where the document lives; used as `SchemaReference.source` and as the diagnostics' `file`. */
+  readonly source?: string;
+  readonly createRoute: (info: OpenApiOperationInfo) => OpenApiRouteConfig<TContext>;
+}
+
+export interface FromOpenApiResult<TContext extends RequestContext> {
+  readonly routes: RouteSpec<TContext, any, any, any, any>[];
+  readonly diagnostics: ModuleDiagnostic[];
+}
+
+interface ParameterObject {
+  readonly name: string;
+  readonly in: string;
+  readonly required?: boolean;
+  readonly schema?: JsonSchema;
+  readonly content?: unknown;
+}
+
+interface MediaTypeObject {
+  readonly schema?: JsonSchema;
+}
+
+interface RequestBodyObject {
+  readonly required?: boolean;
+  readonly content?: Record<string, MediaTypeObject>;
+}
+
+interface ResponseObject {
+  readonly description?: string;
+  readonly headers?: Record<string, unknown>;
+  readonly content?: Record<string, MediaTypeObject>;
+}
+
+interface HeaderObject {
+  readonly required?: boolean;
+  readonly schema?: JsonSchema;
+}
+
+interface Converter {
+  /** `coerce` converts from the strings that path, query, and header values arrive as. */
+  toZod(schema: JsonSchema | boolean | undefined, location: string, coerce?: boolean): z.ZodTypeAny;
+  reference(schema: JsonSchema | undefined): SchemaReference | undefined;
+  resolve<T>(value: unknown, section: 'parameters' | 'requestBodies' | 'responses' | 'headers', location: string): T | undefined;
+}
+
+const OPERATION_METHODS: Record<string, HttpMethod> = {
+  get: 'GET',
+  head: 'HEAD',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE',
+  options: 'OPTIONS'
+};
+
+const PATH_ITEM_FIELDS = new Set(['summary', 'description', 'parameters', 'servers']);
+
+const UNSUPPORTED_KEYWORDS = ['not', 'if', 'patternProperties', 'dependentSchemas', 'prefixItems', 'unevaluatedProperties'];
+
+const COMPONENT_SCHEMA_PREFIX = '#/components/schemas/';
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isJsonMediaType = (type: string): boolean => type === 'application/json' || /^application\/[^;]+\+json/.test(type);
+
+const capitalize = (value: string): string => (value.length === 0 ? value : value[0].toUpperCase() + value.slice(1));
+
+// Route params span a whole segment, so a path like `/files/{name}.{ext}` has no route equivalent.
+const toRoutePath = (path: string): string | undefined =>
+  path.split('/').every((segment) => !/[{}]/.test(segment) || /^\{[^{}]+\}$/.test(segment))
+    ? path.replace(/\{([^}]+)\}/g, ':$1')
+    : undefined;
+
+const defaultRouteName = (method: string, path: string): string =>
+  method +
+  path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      const param = /^\{(.+)\}$/.exec(segment);
+      return param ? `By${capitalize(param[1].replace(/[^A-Za-z0-9]+/g, ''))}` : capitalize(segment.replace(/[^A-Za-z0-9]+/g, ''));
+    })
+    .join('');
+
+// Query and header values are strings, and a repeated query key is an array.
+const fromString = (schema: z.ZodTypeAny, type: string): z.ZodTypeAny => {
+  switch (type) {
+    case 'boolean':
+      return z.preprocess((value) => (value === 'true' ? true : value === 'false' ? false : value), schema);
+    case 'number':
+    case 'integer':
+      return z.preprocess((value) => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value), schema);
+    case 'array':
+      return z.preprocess((value) => (value === undefined || Array.isArray(value) ? value : [value]), schema);
+    default:
+      return schema;
+  }
+};
+
+const literalUnion = (values: readonly unknown[]): z.ZodTypeAny => {
+  const literals = values.map((value) => (value === null ? z.null() : z.literal(value as z.Primitive)));
+  return literals.length === 1 ? literals[0] : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+};
+
+const unionOf = (schemas: readonly z.ZodTypeAny[]): z.ZodTypeAny =>
+  schemas.length === 0 ? z.never() : schemas.length === 1 ? schemas[0] : z.union(schemas as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+
+const createConverter = (document: OpenApiSourceDocument, source: string | undefined, report: (message: string) => void): Converter => {
+  const components = new Map<string, z.ZodTypeAny>();
+
+  const componentSchema = (name: string, location: string): z.ZodTypeAny => {
+    const cached = components.get(name);
+    if (cached) {
+      return cached;
+    }
+    const definition = document.components?.schemas?.[name];
+    if (!definition) {
+      report(`${location}: schema "${name}" is not defined in components.schemas.`);
+      return z.unknown();
+    }
+    // Registered before converting so self-referencing components resolve to the same lazy schema.
+    let resolved: z.ZodTypeAny = z.unknown();
+    components.set(name, z.lazy(() => resolved));
+    resolved = toZod(definition, `${COMPONENT_SCHEMA_PREFIX}${name}`);
+    return components.get(name)!;
+  };
+
+  const withNumberBounds = (schema: z.ZodNumber, definition: JsonSchema, integer: boolean): z.ZodNumber => {
+    let result = integer ? schema.int() : schema;
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = definition as Record<string, number | boolean | undefined>;
+    if (typeof minimum === 'number') {
+      result = exclusiveMinimum === true ? result.gt(minimum) : result.gte(minimum);
+    }
+    if (typeof maximum === 'number') {
+      result = exclusiveMaximum === true ? result.lt(maximum) : result.lte(maximum);
+    }
+    if (typeof exclusiveMinimum === 'number') {
+      result = result.gt(exclusiveMinimum);
+    }
+    if (typeof exclusiveMaximum === 'number') {
+      result = result.lt(exclusiveMaximum);
+    }
+    return result;
+  };
+
+  const withStringRules = (definition: JsonSchema, location: string): z.ZodString => {
+    let result = z.string();
+    const { minLength, maxLength, pattern, format } = definition as Record<string, unknown>;
+    if (typeof minLength === 'number') {
+      result = result.min(minLength);
+    }
+    if (typeof maxLength === 'number') {
+      result = result.max(maxLength);
+    }
+    if (typeof pattern === 'string') {
+      try {
+        result = result.regex(new RegExp(pattern));
+      } catch {
+        report(`${location}: pattern "${pattern}" is not a valid regular expression and is not enforced.`);
+      }
+    }
+    // Other formats are annotations only, as JSON Schema allows.
+    switch (format) {
+      case 'email':
+        return result.email();
+      case 'uuid':
+        return result.uuid();
+      case 'uri':
+      case 'url':
+        return result.url();
+      case 'date-time':
+        return result.datetime({ offset: true });
+      case 'date':
+        return result.date();
+      default:
+        return result;
+    }
+  };
+
+  const objectSchema = (definition: JsonSchema, location: string): z.ZodTypeAny => {
+    const properties = isObject(definition.properties) ? (definition.properties as Record<string, JsonSchema>) : {};
+    const required = new Set(Array.isArray(definition.required) ? (definition.required as string[]) : []);
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const [key, property] of Object.entries(properties)) {
+      const schema = toZod(property, `${location}.${key}`);
+      shape[key] = required.has(key)
+        ? schema
+        : isObject(property) && 'default' in property
+          ? schema.default(property.default)
+          : schema.optional();
+    }
+    const object = z.object(shape);
+    const additional = definition.additionalProperties;
+    if (additional === false) {
+      return object.strict();
+    }
+    if (isObject(additional)) {
+      return object.catchall(toZod(additional, `${location}.additionalProperties`));
+    }
+    // JSON Schema allows unknown properties unless told otherwise.
+    return object.passthrough();
+  };
+
+  const typedSchema = (type: string, definition: JsonSchema, location: string, coerce: boolean): z.ZodTypeAny => {
+    switch (type) {
+      case 'string':
+        return withStringRules(definition, location);
+      case 'number':
+      case 'integer':
+        return withNumberBounds(z.number(), definition, type === 'integer');
+      case 'boolean':
+        return z.boolean();
+      case 'null':
+        return z.null();
+      case 'array': {
+        let array = z.array(toZod(definition.items as JsonSchema | undefined, `${location}[]`, coerce));
+        if (typeof definition.minItems === 'number') {
+          array = array.min(definition.minItems);
+        }
+        if (typeof definition.maxItems === 'number') {
+          array = array.max(definition.maxItems);
+        }
+        return array;
+      }
+      case 'object':
+        return objectSchema(definition, location);
+      default:
+        report(`${location}: type "${type}" is not supported and is accepted as unknown.`);
+        return z.unknown();
+    }
+  };
+
+  const toZod = (definition: JsonSchema | boolean | undefined, location: string, coerce = false): z.ZodTypeAny => {
+    if (definition === undefined || definition === true) {
+      return z.unknown();
+    }
+    if (definition === false) {
+      return z.never();
+    }
+
+    const ref = definition.$ref;
+    if (typeof ref === 'string') {
+      if (ref.startsWith(COMPONENT_SCHEMA_PREFIX)) {
+        return componentSchema(ref.slice(COMPONENT_SCHEMA_PREFIX.length), location);
+      }
+      report(`${location}: reference "${ref}" is not a local components.schemas reference and is accepted as unknown.`);
+      return z.unknown();
+    }
+
+    for (const keyword of UNSUPPORTED_KEYWORDS) {
+      if (keyword in definition) {
+        report(`${location}: "${keyword}" is not enforced.`);
+      }
+    }
+
+    let schema: z.ZodTypeAny;
+    if (Array.isArray(definition.enum)) {
+      schema = literalUnion(definition.enum);
+    } else if ('const' in definition) {
+      schema = literalUnion([definition.const]);
+    } else if (Array.isArray(definition.allOf)) {
+      const parts = (definition.allOf as JsonSchema[]).map((part, index) => toZod(part, `${location}.allOf[${index}]`, coerce));
+      schema = parts.length === 0 ? z.unknown() : parts.reduce((left, right) => z.intersection(left, right));
+    } else if (Array.isArray(definition.oneOf) || Array.isArray(definition.anyOf)) {
+      const keyword = Array.isArray(definition.oneOf) ? 'oneOf' : 'anyOf';
+      schema = unionOf((definition[keyword] as JsonSchema[]).map((part, index) => toZod(part, `${location}.${keyword}[${index}]`, coerce)));
+    } else if (Array.isArray(definition.type)) {
+      schema = unionOf((definition.type as string[]).map((type) => typedSchema(type, definition, location, coerce)));
+    } else if (typeof definition.type === 'string') {
+      schema = typedSchema(definition.type, definition, location, coerce);
+    } else if (isObject(definition.properties)) {
+      schema = objectSchema(definition, location);
+    } else {
+      schema = z.unknown();
+    }
+
+    if (coerce && typeof definition.type === 'string') {
+      schema = fromString(schema, definition.type);
+    }
+    // OpenAPI 3.0 spells `type: ['x', 'null']` as `nullable: true`.
+    if (definition.nullable === true) {
+      schema = schema.nullable();
+    }
+    return typeof definition.description === 'string' ? schema.describe(definition.description) : schema;
+  };
+
+  const reference = (schema: JsonSchema | undefined): SchemaReference | undefined => {
+    const ref = schema?.$ref;
+    return typeof ref === 'string' && ref.startsWith(COMPONENT_SCHEMA_PREFIX)
+      ? { kind: 'json-schema', name: ref.slice(COMPONENT_SCHEMA_PREFIX.length), source }
+      : undefined;
+  };
+
+  const resolve = <T>(value: unknown, section: 'parameters' | 'requestBodies' | 'responses' | 'headers', location: string): T | undefined => {
+    if (!isObject(value) || typeof value.$ref !== 'string') {
+      return value as T | undefined;
+    }
+    const prefix = `#/components/${section}/`;
+    const target = value.$ref.startsWith(prefix) ? document.components?.[section]?.[value.$ref.slice(prefix.length)] : undefined;
+    if (!target) {
+      report(`${location}: reference "${value.$ref}" cannot be resolved.`);
+    }
+    return target as T | undefined;
+  };
+
+  return { toZod, reference, resolve };
+};
+
+const pickJsonMedia = (
+  content: Record<string, MediaTypeObject> | undefined,
+  location: string,
+  report: (message: string) => void
+): MediaTypeObject | undefined => {
+  if (!content) {
+    return undefined;
+  }
+  const entries = Object.entries(content);
+  const json = entries.find(([type]) => isJsonMediaType(type));
+  if (!json && entries.length > 0) {
+    report(`${location}: only JSON content is imported; ${entries.map(([type]) => type).join(', ')} is accepted as unknown.`);
+    return { schema: {} };
+  }
+  return json?.[1];
+};
+
+const parameterObject = (
+  parameters: readonly ParameterObject[],
+  location: 'path' | 'query' | 'header',
+  converter: Converter,
+  where: string
+): z.ZodTypeAny | undefined => {
+  const selected = parameters.filter((parameter) => parameter.in === location);
+  if (selected.length === 0) {
+    return undefined;
+  }
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const parameter of selected) {
+    const key = location === 'header' ? parameter.name.toLowerCase() : parameter.name;
+    const schema = converter.toZod(parameter.schema ?? { type: 'string' }, `${where} ${location} parameter "${parameter.name}"`, true);
+    shape[key] = location === 'path' || parameter.required ? schema : schema.optional();
+  }
+  return z.object(shape);
+};
+
+/**
+ * Turns the operations of an OpenAPI 3.x document into `RouteSpec`s, with JSON Schemas converted
+ * to Zod validators and `json-schema` references to the components they came from. Constructs
+ * the importer cannot represent are reported in `diagnostics` instead of being dropped silently.
+ */
+export function fromOpenApiDocument<TContext extends RequestContext>(options: FromOpenApiOptions<TContext>): FromOpenApiResult<TContext> {
+  const { document, baseName, source, createRoute } = options;
+  const routes: RouteSpec<TContext, any, any, any, any>[] = [];
+  const diagnostics: ModuleDiagnostic[] = [];
+  const report = (message: string, severity: ModuleDiagnostic['severity'] = 'warn') =>
+    diagnostics.push({ severity, message, file: source });
+
+  if (typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    report(
+      document.swagger
+        ? `Swagger ${document.swagger} documents are not supported; convert the document to OpenAPI 3.x first.`
+        : 'Document is not an OpenAPI 3.x document (missing or unsupported "openapi" version).',
+      'error'
+    );
+    return { routes, diagnostics };
+  }
+  if (isObject(document.webhooks) && Object.keys(document.webhooks).length > 0) {
+    report('Webhooks are not imported.');
+  }
+
+  const converter = createConverter(document, source, report);
+
+  for (const [openApiPath, pathItem] of Object.entries(document.paths ?? {})) {
+    if (typeof pathItem.$ref === 'string') {
+      report(`${openApiPath}: path item references ("${pathItem.$ref}") are not supported.`);
+      continue;
+    }
+    const path = toRoutePath(openApiPath);
+    if (!path) {
+      report(`${openApiPath}: path parameters must span a whole path segment; the path's operations are skipped.`);
+      continue;
+    }
+    const shared = (Array.isArray(pathItem.parameters) ? pathItem.parameters : []) as unknown[];
+
+    for (const [key, value] of Object.entries(pathItem)) {
+      const method = OPERATION_METHODS[key];
+      if (!method) {
+        if (!PATH_ITEM_FIELDS.has(key) && !key.startsWith('x-')) {
+          report(`${openApiPath}: "${key}" operations are not supported.`);
+        }
+        continue;
+      }
+      if (!isObject(value)) {
+        continue;
+      }
+
+      const operation = value;
+      const where = `${method} ${openApiPath}`;
+      const operationId = typeof operation.operationId === 'string' ? operation.operationId : undefined;
+      const name = [baseName, operationId ?? defaultRouteName(key, openApiPath)].filter(Boolean).join('.');
+
+      if (isObject(operation.callbacks)) {
+        report(`${where}: callbacks are not imported.`);
+      }
+
+      // Operation parameters override path-level ones with the same name and location.
+      const parameters = new Map<string, ParameterObject>();
+      for (const raw of [...shared, ...((Array.isArray(operation.parameters) ? operation.parameters : []) as unknown[])]) {
+        const parameter = converter.resolve<ParameterObject>(raw, 'parameters', where);
+        if (!parameter) {
+          continue;
+        }
+        if (!['path', 'query', 'header'].includes(parameter.in)) {
+          report(`${where}: ${parameter.in} parameter "${parameter.name}" is not supported.`);
+          continue;
+        }
+        if (!parameter.schema && parameter.content) {
+          report(`${where}: parameter "${parameter.name}" uses "content", which is not supported; it is accepted as a string.`);
+        }
+        parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+      for (const match of openApiPath.matchAll(/\{([^}]+)\}/g)) {
+        if (!parameters.has(`path:${match[1]}`)) {
+          parameters.set(`path:${match[1]}`, { name: match[1], in: 'path', required: true });
+        }
+      }
+      const list = [...parameters.values()];
+
+      const requestBody = converter.resolve<RequestBodyObject>(operation.requestBody, 'requestBodies', where);
+      const bodyMedia = pickJsonMedia(requestBody?.content, `${where} request body`, report);
+      const bodySchema = bodyMedia ? converter.toZod(bodyMedia.schema, `${where} request body`) : undefined;
+
+      const responses: Record<number, z.ZodTypeAny | RouteResponseSchema> = {};
+      const output: NonNullable<RouteOutputDefinition['responses']> = {};
+      for (const [status, raw] of Object.entries(isObject(operation.responses) ? operation.responses : {})) {
+        if (!/^[1-5]\d{2}$/.test(status)) {
+          report(`${where}: "${status}" responses are not imported; declare explicit status codes.`);
+          continue;
+        }
+        const response = converter.resolve<ResponseObject>(raw, 'responses', where);
+        if (!response) {
+          continue;
+        }
+        const media = pickJsonMedia(response.content, `${where} ${status} response`, report);
+        const headerEntries = Object.entries(response.headers ?? {}).flatMap(([header, rawHeader]) => {
+          const resolved = converter.resolve<HeaderObject>(rawHeader, 'headers', where);
+          return resolved ? [[header, resolved] as const] : [];
+        });
+        const headers = headerEntries.length
+          ? z.object(
+              Object.fromEntries(
+                headerEntries.map(([header, definition]) => {
+                  const schema = converter.toZod(definition.schema ?? { type: 'string' }, `${where} ${status} header "${header}"`, true);
+                  return [header.toLowerCase(), definition.required ? schema : schema.optional()];
+                })
+              )
+            )
+          : undefined;
+        responses[Number(status)] = {
+          body: media ? converter.toZod(media.schema, `${where} ${status} response`) : undefined,
+          headers
+        };
+        output[status] = { body: converter.reference(media?.schema), description: response.description };
+      }
+
+      const config = createRoute({ name, operationId, method, path, openApiPath, operation });
+      const security = (operation.security ?? document.security) as readonly Record<string, unknown>[] | undefined;
+      const secured = Array.isArray(security) && security.length > 0 && security.every((requirement) => Object.keys(requirement).length > 0);
+      const tags = config.tags ?? (Array.isArray(operation.tags) ? (operation.tags as string[]) : undefined);
+      const hasResponses = Object.keys(responses).length > 0;
+      const bodyReference = converter.reference(bodyMedia?.schema);
+
+      routes.push({
+        definition: {
+          name: config.name ?? name,
+          method,
+          path,
+          summary: config.summary ?? (typeof operation.summary === 'string' ? operation.summary : undefined),
+          description: config.description ?? (typeof operation.description === 'string' ? operation.description : undefined),
+          tags: tags && tags.length > 0 ? [...tags] : undefined,
+          input: bodyReference ? { body: bodyReference } : undefined,
+          output: hasResponses ? { status: config.successStatus, responses: output } : undefined,
+          errors: config.errors && config.errors.length > 0 ? [...config.errors] : undefined,
+          auth: config.auth ?? (secured ? { required: true } : undefined)
+        },
+        schemas: {
+          params: parameterObject(list, 'path', converter, where),
+          query: parameterObject(list, 'query', converter, where),
+          headers: parameterObject(list, 'header', converter, where),
+          body: bodySchema && requestBody?.required !== true ? bodySchema.optional() : bodySchema,
+          response: hasResponses ? (responses as RouteResponseMap) : z.void(),
+          errors: config.errorSchemas
+        },
+        handler: config.handler
+      });
+    }
+  }
+
+  return { routes, diagnostics };
+}
+
+/** Reads an OpenAPI document from a `.json`, `.yaml`, or `.yml` file. YAML needs the optional `yaml` package. */
+export async function loadOpenApiDocument(file: string): Promise<OpenApiSourceDocument> {
+  const { readFile } = await import('node:fs/promises');
+  const text = await readFile(file, 'utf8');
+  if (/\.ya?ml$/i.test(file)) {
+    const { parse } = await import('yaml');
+    return parse(text) as OpenApiSourceDocument;
+  }
+  return JSON.parse(text) as OpenApiSourceDocument;
+}
@@ -1,30 +1,21 @@
 import { ContractNoBody, isAppRoute, isAppRouteMutation, isAppRouteNoBody, isAppRouteOtherResponse, isZodType } from '@ts-rest/core';
-import type { AppRoute, AppRouteResponse, AppRouter } from '@ts-rest/core';
+import type { AppRoute, AppRouteResponse, AppRouter, ContractAnyType } from '@ts-rest/core';
 import { z } from 'zod';
 
 import type {
+  MiddlewareSpec,
+  ModuleDefinition,
   ModuleError,
   RequestContext,
+  RouteDefinition,
   RouteHandler,
+  RouteOutputDefinition,
+  RouteResponseMap,
+  RouteResponses,
   RouteSpec,
   SchemaReference
 } from '../index.js';
-
-interface SchemaNames {
-  readonly params?: SchemaReference;
-  readonly query?: SchemaReference;
-  readonly body?: SchemaReference;
-  readonly headers?: SchemaReference;
-  readonly response?: SchemaReference;
-}
-
-type MutableSchemaNames = {
-  params?: SchemaReference;
-  query?: SchemaReference;
-  body?: SchemaReference;
-  headers?: SchemaReference;
-  response?: SchemaReference;
-};
+import { inferSchemaReferences } from '../manifest/schema-names.js';
 
 interface BaseFromTsRestRouteOptions {
   readonly name: string;
@@ -33,6 +24,7 @@ interface BaseFromTsRestRouteOptions {
   readonly description?: string;
   readonly tags?: readonly string[];
   readonly schemaBaseName?: string;
+  /** Status used when the handler omits one; defaults to the route's only 2xx response. */
   readonly successStatus?: number;
   readonly errors?: readonly ModuleError[];
   readonly errorSchemas?: readonly z.ZodTypeAny[];
@@ -43,13 +35,14 @@ export interface FromTsRestRouteOptions<
   TParams extends z.ZodTypeAny | undefined,
   TQuery extends z.ZodTypeAny | undefined,
   TBody extends z.ZodTypeAny | undefined,
-  TResponse extends z.ZodTypeAny
+  TResponse extends RouteResponses
 > extends BaseFromTsRestRouteOptions {
   readonly handler: RouteHandler<TContext, TParams, TQuery, TBody, TResponse>;
   readonly paramsSchema?: TParams;
   readonly querySchema?: TQuery;
   readonly bodySchema?: TBody;
   readonly headersSchema?: z.ZodTypeAny;
+  /** Replaces the response schemas derived from `appRoute.responses`. */
   readonly responseSchema?: TResponse;
 }
 
@@ -58,7 +51,7 @@ type AnyRouteOptions<TContext extends RequestContext> = FromTsRestRouteOptions<
   z.ZodTypeAny | undefined,
   z.ZodTypeAny | undefined,
   z.ZodTypeAny | undefined,
-  z.ZodTypeAny
+  RouteResponses
 >;
 
 export interface RouterRouteConfig<TContext extends RequestContext> extends Omit<AnyRouteOptions<TContext>, 'appRoute' | 'name'> {
@@ -75,58 +68,32 @@ export interface FromTsRestRouterOptions<TContext extends RequestContext> {
   }) => RouterRouteConfig<TContext>;
 }
 
-const DEFAULT_SUCCESS_CODES = [200, 201, 202, 204];
+export interface ToTsRestRouterOptions {
+  /** Leading name segment shared by every route (the `baseName` given to `fromTsRestRouter`); it is not nested. */
+  readonly baseName?: string;
+}
+
+// Stored under `appRoute.metadata.webstir` by `toTsRestRouter` for the parts of a route that a
+// ts-rest contract cannot express, so `fromTsRestRoute` can restore them.
+interface ExportedRouteMetadata {
+  readonly definition: RouteDefinition;
+  readonly singleResponse: boolean;
+  readonly errorSchemas?: readonly z.ZodTypeAny[];
+  readonly middleware?: readonly MiddlewareSpec<any, any>[];
+}
 
 const noopResponseSchema = z.void();
 
 const isNonEmpty = <T>(value: readonly T[] | undefined): value is readonly T[] =>
   Array.isArray(value) && value.length > 0;
 
-const sanitizeSchemaBase = (raw: string): string => raw.replace(/[^A-Za-z0-9]+/g, '_');
-
-const capitalize = (value: string): string =>
-  value.length === 0 ? value : value[0].toUpperCase() + value.slice(1);
-
 const buildSchemaNames = (baseName: string, schemas: {
   readonly params?: z.ZodTypeAny;
   readonly query?: z.ZodTypeAny;
   readonly body?: z.ZodTypeAny;
   readonly headers?: z.ZodTypeAny;
   readonly response?: z.ZodTypeAny;
-}): SchemaNames => {
-  const names: MutableSchemaNames = {};
-  const safeBase = sanitizeSchemaBase(baseName);
-
-  if (schemas.params) {
-    names.params = { kind: 'zod', name: `${safeBase}${capitalize('params')}` };
-  }
-  if (schemas.query) {
-    names.query = { kind: 'zod', name: `${safeBase}${capitalize('query')}` };
-  }
-  if (schemas.body) {
-    names.body = { kind: 'zod', name: `${safeBase}${capitalize('body')}` };
-  }
-  if (schemas.headers) {
-    names.headers = { kind: 'zod', name: `${safeBase}${capitalize('headers')}` };
-  }
-  if (schemas.response) {
-    names.response = { kind: 'zod', name: `${safeBase}${capitalize('response')}` };
-  }
-
-  return names;
-};
-
-const selectResponse = (route: AppRoute, preferred?: number): { status?: number; response?: AppRouteResponse } => {
-  const statusCodes = Object.keys(route.responses).map((status) => Number.parseInt(status, 10));
-  if (statusCodes.length === 0) {
-    return { response: undefined };
-  }
-
-  const ordered = statusCodes.sort((a, b) => a - b);
-  const preferredStatus = preferred ?? ordered.find((code) => DEFAULT_SUCCESS_CODES.includes(code));
-  const status = preferredStatus ?? ordered[0];
-  return { status, response: route.responses[status] };
-};
+}) => inferSchemaReferences(baseName, schemas);
 
 const toZod = (value: unknown): z.ZodTypeAny | undefined => {
   if (!value) {
@@ -147,25 +114,49 @@ const toZod = (value: unknown): z.ZodTypeAny | undefined => {
   return undefined;
 };
 
-const extractResponseSchema = (response: AppRouteResponse | undefined): z.ZodTypeAny | undefined => {
-  if (!response) {
-    return undefined;
-  }
-  if (response === ContractNoBody || isAppRouteNoBody(response)) {
+const readExportedMetadata = (route: AppRoute): ExportedRouteMetadata | undefined => {
+  const metadata = route.metadata as { readonly webstir?: ExportedRouteMetadata } | undefined;
+  const exported = typeof metadata === 'object' && metadata !== null ? metadata.webstir : undefined;
+  return exported && typeof exported.definition === 'object' && exported.definition !== null ? exported : undefined;
+};
+
+const isNoBody = (response: AppRouteResponse): boolean => response === ContractNoBody || isAppRouteNoBody(response);
+
+const extractResponseSchema = (response: AppRouteResponse): z.ZodTypeAny | undefined =>
+  isAppRouteOtherResponse(response) ? toZod(response.body) : toZod(response);
+
+// Every `appRoute.responses` entry is kept. Bodies declared with `c.type<T>()` have no runtime
+// schema, so they are accepted as `unknown`; `c.noBody()` entries declare no body at all.
+const buildResponseMap = (route: AppRoute): RouteResponseMap | undefined => {
+  const entries = Object.entries(route.responses);
+  if (entries.length === 0) {
     return undefined;
   }
-  if (isAppRouteOtherResponse(response)) {
-    return toZod(response.body);
-  }
-  return toZod(response);
+  return Object.fromEntries(
+    entries.map(([status, response]) => [
+      Number.parseInt(status, 10),
+      isNoBody(response) ? {} : (extractResponseSchema(response) ?? z.unknown())
+    ])
+  );
 };
 
+const buildResponseOutput = (baseName: string, responses: RouteResponseMap, status: number | undefined): RouteOutputDefinition => ({
+  status,
+  responses: Object.fromEntries(
+    Object.entries(responses).map(([code, entry]) => {
+      const key = `response${code}`;
+      const names = inferSchemaReferences(baseName, { [key]: isZodType(entry) ? (entry as z.ZodTypeAny) : undefined });
+      return [code, names[key] ? { body: names[key] } : {}];
+    })
+  )
+});
+
 export function fromTsRestRoute<
   TContext extends RequestContext,
   TParams extends z.ZodTypeAny | undefined = undefined,
   TQuery extends z.ZodTypeAny | undefined = undefined,
   TBody extends z.ZodTypeAny | undefined = undefined,
-  TResponse extends z.ZodTypeAny = z.ZodTypeAny
+  TResponse extends RouteResponses = RouteResponses
 >(
   options: FromTsRestRouteOptions<TContext, TParams, TQuery, TBody, TResponse>
 ): RouteSpec<TContext, TParams, TQuery, TBody, TResponse> {
@@ -193,17 +184,28 @@ export function fromTsRestRoute<
   const mutationBodySchema = isAppRouteMutation(appRoute) ? toZod(appRoute.body) : undefined;
   const resolvedBodySchema = (bodySchema ?? mutationBodySchema) as TBody;
 
-  const { status: derivedStatus, response: routeResponse } = selectResponse(appRoute, successStatus);
-  const baseResponseSchema = extractResponseSchema(routeResponse);
-  const resolvedResponseSchema = (responseSchema ?? baseResponseSchema ?? noopResponseSchema) as TResponse;
+  const exported = readExportedMetadata(appRoute);
+  const exportedDefinition = exported?.definition;
+
+  let responseMap = responseSchema ? undefined : buildResponseMap(appRoute);
+  let exportedResponse: z.ZodTypeAny | undefined;
+  // A single response schema was exported as a one-entry map; collapse it back.
+  if (responseMap && exported?.singleResponse && Object.keys(responseMap).length === 1) {
+    const [entry] = Object.values(responseMap);
+    exportedResponse = isZodType(entry) ? (entry as z.ZodTypeAny) : noopResponseSchema;
+    responseMap = undefined;
+  }
+  const resolvedResponseSchema = (responseSchema ?? exportedResponse ?? responseMap ?? noopResponseSchema) as TResponse;
 
-  const schemaNames = buildSchemaNames(schemaBaseName ?? name, {
+  const baseName = schemaBaseName ?? name;
+  const schemaNames = buildSchemaNames(baseName, {
     params: resolvedParamsSchema,
     query: resolvedQuerySchema,
     body: resolvedBodySchema,
-    headers: resolvedHeadersSchema,
-    response: resolvedResponseSchema
+    headers: resolvedHeadersSchema
   });
+  const singleResponseName =
+    !responseMap && isZodType(resolvedResponseSchema) ? buildSchemaNames(baseName, { response: resolvedResponseSchema as z.ZodTypeAny }).response : undefined;
 
   const definitionInput: Record<string, SchemaReference | undefined> = {
     params: schemaNames.params,
@@ -213,30 +215,35 @@ export function fromTsRestRoute<
   };
 
   const hasInput = Object.values(definitionInput).some((value) => value !== undefined);
-
+  const derivedOutput: RouteOutputDefinition | undefined = responseMap
+    ? buildResponseOutput(baseName, responseMap, successStatus)
+    : singleResponseName
+      ? { body: singleResponseName, status: successStatus }
+      : undefined;
+
+  // Fields restored from `metadata.webstir` apply unless the options replace them; the contract's
+  // method, path, and schemas always win, so edits made to an exported contract still take effect.
   return {
     definition: {
+      ...exportedDefinition,
       name,
       method: appRoute.method,
       path: appRoute.path,
       summary: summary ?? appRoute.summary,
       description: description ?? appRoute.description,
-      tags: isNonEmpty(tags) ? [...tags] : undefined,
-      input: hasInput
-        ? {
-            params: schemaNames.params,
-            query: schemaNames.query,
-            body: schemaNames.body,
-            headers: schemaNames.headers
-          }
-        : undefined,
-      output: schemaNames.response
-        ? {
-            body: schemaNames.response,
-            status: derivedStatus
-          }
-        : undefined,
-      errors: isNonEmpty(errors) ? [...errors] : undefined
+      tags: isNonEmpty(tags) ? [...tags] : exportedDefinition?.tags,
+      input: exportedDefinition
+        ? exportedDefinition.input
+        : hasInput
+          ? {
+              params: schemaNames.params,
+              query: schemaNames.query,
+              body: schemaNames.body,
+              headers: schemaNames.headers
+            }
+          : undefined,
+      output: exportedDefinition && !responseSchema && successStatus === undefined ? exportedDefinition.output : derivedOutput,
+      errors: isNonEmpty(errors) ? [...errors] : exportedDefinition?.errors
     },
     schemas: {
       params: resolvedParamsSchema,
@@ -244,9 +251,10 @@ export function fromTsRestRoute<
       body: resolvedBodySchema,
       headers: resolvedHeadersSchema,
       response: resolvedResponseSchema,
-      errors: errorSchemas
+      errors: errorSchemas ?? exported?.errorSchemas
     },
-    handler
+    handler,
+    middleware: exported?.middleware
   };
 }
 
@@ -262,7 +270,7 @@ export function fromTsRestRouter<TContext extends RequestContext>(
         const keyPath = [...path, key];
         const routeConfig = createRoute({ key, keyPath, appRoute: value });
         const nameSegments = [baseName, ...keyPath.filter(Boolean)].filter(Boolean) as string[];
-        const routeName = routeConfig.name ?? nameSegments.join('.');
+        const routeName = routeConfig.name ?? readExportedMetadata(value)?.definition.name ?? nameSegments.join('.');
 
         specs.push(
           fromTsRestRoute({
@@ -280,3 +288,96 @@ export function fromTsRestRouter<TContext extends RequestContext>(
   visit(router, []);
   return specs;
 }
+
+const toContractResponse = (status: number, entry: z.ZodTypeAny | { readonly body?: z.ZodTypeAny } | undefined): [number, AppRouteResponse] => {
+  const body = entry && isZodType(entry) ? (entry as z.ZodTypeAny) : (entry as { body?: z.ZodTypeAny } | undefined)?.body;
+  return [status, !body || body instanceof z.ZodVoid ? ContractNoBody : body];
+};
+
+// ts-rest has no per-status response headers, so only the bodies of a response map carry over.
+const buildContractResponses = (spec: RouteSpec<any, any, any, any, any>): Record<number, AppRouteResponse> => {
+  const response = spec.schemas.response as RouteResponses | undefined;
+  if (!response) {
+    return {};
+  }
+  if (isZodType(response)) {
+    return Object.fromEntries([toContractResponse(spec.definition.output?.status ?? 200, response as z.ZodTypeAny)]);
+  }
+  return Object.fromEntries(
+    Object.entries(response as RouteResponseMap).map(([status, entry]) => toContractResponse(Number.parseInt(status, 10), entry))
+  );
+};
+
+const toAppRoute = (spec: RouteSpec<any, any, any, any, any>): AppRoute => {
+  const { definition, schemas } = spec;
+  const exported: ExportedRouteMetadata = {
+    definition,
+    singleResponse: isZodType(schemas.response),
+    errorSchemas: schemas.errors,
+    middleware: spec.middleware
+  };
+  const common = {
+    path: definition.path,
+    pathParams: schemas.params as ContractAnyType | undefined,
+    query: schemas.query as ContractAnyType | undefined,
+    headers: schemas.headers as ContractAnyType | undefined,
+    summary: definition.summary,
+    description: definition.description,
+    responses: buildContractResponses(spec),
+    metadata: { webstir: exported }
+  };
+  const body = schemas.body as ContractAnyType | undefined;
+
+  switch (definition.method) {
+    case 'GET':
+      return { ...common, method: 'GET' };
+    case 'DELETE':
+      return body ? { ...common, method: 'DELETE', body } : { ...common, method: 'DELETE' };
+    case 'POST':
+    case 'PUT':
+    case 'PATCH':
+      return { ...common, method: definition.method, body: body ?? ContractNoBody };
+    default:
+      throw new Error(`Route "${definition.name}" uses ${definition.method}, which ts-rest contracts cannot express.`);
+  }
+};
+
+/**
+ * Builds a ts-rest contract from a module's routes. Dotted route names become nested routers
+ * (`accounts.detail` → `router.accounts.detail`). Each route's definition, error schemas, and
+ * middleware travel in `metadata.webstir`, so `fromTsRestRouter` yields the same definitions and
+ * schemas again; only handlers and per-status response headers have to be supplied anew.
+ */
+export function toTsRestRouter(
+  module: Pick<ModuleDefinition<any, any, readonly RouteSpec<any, any, any, any, any>[], any>, 'routes'>,
+  options: ToTsRestRouterOptions = {}
+): AppRouter {
+  const prefix = options.baseName ? `${options.baseName}.` : undefined;
+  const router: Record<string, unknown> = {};
+
+  for (const spec of module.routes ?? []) {
+    const { name } = spec.definition;
+    const relative = prefix && name.startsWith(prefix) ? name.slice(prefix.length) : name;
+    const segments = relative.split('.').filter(Boolean);
+    if (segments.length === 0) {
+      throw new Error(`Route "${name}" has no name segments left after removing base name "${options.baseName}".`);
+    }
+
+    let node = router;
+    for (const segment of segments.slice(0, -1)) {
+      const child = node[segment];
+      if (child !== undefined && isAppRoute(child as AppRoute)) {
+        throw new Error(`Route "${name}" nests under "${segment}", which is already a route.`);
+      }
+      node = (child ?? (node[segment] = {})) as Record<string, unknown>;
+    }
+
+    const key = segments[segments.length - 1];
+    if (node[key] !== undefined) {
+      throw new Error(`Route "${name}" collides with another route or router at the same key.`);
+    }
+    node[key] = toAppRoute(spec);
+  }
+
+  return router as AppRouter;
+}
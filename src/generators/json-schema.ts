@@ -0,0 +1,23 @@
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ToJsonSchemaOptions {
+  readonly name?: string;
+  readonly target?: 'jsonSchema7' | 'openApi3';
+  readonly refStrategy?: 'root' | 'none';
+}
+
+/**
+ * Converts a Zod schema into a JSON Schema object. This is the same conversion
+ * `scripts/build-schema.mjs` uses for the published `schema/` files; schemas are
+ * inlined unless `refStrategy: 'root'` is requested.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny, options: ToJsonSchemaOptions = {}): JsonSchema {
+  return zodToJsonSchema(schema, {
+    name: options.name,
+    target: options.target ?? 'jsonSchema7',
+    $refStrategy: options.refStrategy ?? 'none'
+  }) as JsonSchema;
+}
@@ -0,0 +1,255 @@
+import { z } from 'zod';
+
+import type { ModuleDefinition, ModuleErrorCode, RouteSpec, SchemaReference } from '../index.js';
+import { MODULE_ERROR_STATUS } from '../runtime/errors.js';
+import { parsePathPattern } from '../runtime/paths.js';
+import { isResponseMap, listResponses } from '../runtime/responses.js';
+import { toJsonSchema, type JsonSchema } from './json-schema.js';
+
+export interface OpenApiParameter {
+  readonly name: string;
+  readonly in: 'path' | 'query' | 'header';
+  readonly required: boolean;
+  readonly description?: string;
+  readonly schema: JsonSchema;
+}
+
+export interface OpenApiMediaType {
+  readonly schema: JsonSchema;
+}
+
+export interface OpenApiHeader {
+  readonly required: boolean;
+  readonly description?: string;
+  readonly schema: JsonSchema;
+}
+
+export interface OpenApiResponse {
+  readonly description: string;
+  readonly headers?: Record<string, OpenApiHeader>;
+  readonly content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  readonly operationId: string;
+  readonly summary?: string;
+  readonly description?: string;
+  readonly tags?: readonly string[];
+  readonly parameters?: readonly OpenApiParameter[];
+  readonly requestBody?: {
+    readonly required: boolean;
+    readonly content: Record<string, OpenApiMediaType>;
+  };
+  readonly responses: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+  readonly openapi: '3.1.0';
+  readonly info: {
+    readonly title: string;
+    readonly version: string;
+    readonly description?: string;
+  };
+  readonly servers?: readonly { readonly url: string; readonly description?: string }[];
+  readonly paths: Record<string, Record<string, OpenApiOperation>>;
+  readonly components: {
+    readonly schemas: Record<string, JsonSchema>;
+  };
+}
+
+export interface GenerateOpenApiOptions {
+  readonly title?: string;
+  readonly version?: string;
+  readonly description?: string;
+  readonly servers?: readonly { readonly url: string; readonly description?: string }[];
+}
+
+const ERROR_RESPONSE_COMPONENT = 'ModuleErrorResponse';
+
+const ERROR_DESCRIPTIONS: Record<ModuleErrorCode, string> = {
+  validation: 'Validation failed',
+  auth: 'Authentication or authorization failed',
+  not_found: 'Resource not found',
+  conflict: 'Conflict',
+  domain: 'Domain rule violated',
+  internal: 'Internal error'
+};
+
+const moduleErrorResponseSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          code: { type: 'string', enum: Object.keys(MODULE_ERROR_STATUS) },
+          message: { type: 'string' },
+          details: {},
+          cause: {},
+          correlationId: { type: 'string' }
+        },
+        required: ['code', 'message']
+      }
+    }
+  },
+  required: ['errors']
+};
+
+const toOpenApiPath = (path: string): string =>
+  `/${parsePathPattern(path)
+    .segments.map((segment) => (segment.kind === 'param' ? `{${segment.name}}` : segment.value))
+    .join('/')}`;
+
+const convert = (schema: z.ZodTypeAny): JsonSchema => {
+  const { $schema: _schema, ...json } = toJsonSchema(schema);
+  return json;
+};
+
+const isEmptySchema = (schema: z.ZodTypeAny): boolean =>
+  schema instanceof z.ZodVoid || schema instanceof z.ZodUndefined || schema instanceof z.ZodNever;
+
+const objectShape = (schema: z.ZodTypeAny | undefined): Record<string, z.ZodTypeAny> | undefined => {
+  let current = schema;
+  while (current instanceof z.ZodEffects) {
+    current = current.innerType();
+  }
+  return current instanceof z.ZodObject ? (current.shape as Record<string, z.ZodTypeAny>) : undefined;
+};
+
+const buildParameters = (
+  location: OpenApiParameter['in'],
+  schema: z.ZodTypeAny | undefined,
+  fallbackNames: readonly string[] = []
+): OpenApiParameter[] => {
+  const shape = objectShape(schema);
+  if (!shape) {
+    return fallbackNames.map((name) => ({ name, in: location, required: true, schema: { type: 'string' } }));
+  }
+
+  return Object.entries(shape).map(([name, property]) => ({
+    name: location === 'header' ? name.toLowerCase() : name,
+    in: location,
+    required: location === 'path' || !property.isOptional(),
+    description: property.description,
+    schema: convert(property instanceof z.ZodOptional ? property.unwrap() : property)
+  }));
+};
+
+export function generateOpenApiDocument(
+  modules: ModuleDefinition<any, any, any, any> | readonly ModuleDefinition<any, any, any, any>[],
+  options: GenerateOpenApiOptions = {}
+): OpenApiDocument {
+  const list: readonly ModuleDefinition<any, any, any, any>[] = Array.isArray(modules) ? modules : [modules as ModuleDefinition];
+  const paths: Record<string, Record<string, OpenApiOperation>> = {};
+  const schemas: Record<string, JsonSchema> = {};
+  let usesErrorResponse = false;
+
+  // Named schemas become components; unnamed ones are inlined. One name must not stand for two schemas.
+  const schemaFor = (schema: z.ZodTypeAny, reference: SchemaReference | undefined, route: string): JsonSchema => {
+    const converted = convert(schema);
+    if (!reference) {
+      return converted;
+    }
+    const existing = schemas[reference.name];
+    if (!existing) {
+      schemas[reference.name] = converted;
+    } else if (JSON.stringify(existing) !== JSON.stringify(converted)) {
+      throw new Error(`Schema name "${reference.name}" on route "${route}" already names a different schema; give each schema its own name.`);
+    }
+    return { $ref: `#/components/schemas/${reference.name}` };
+  };
+
+  const errorResponse = (code: ModuleErrorCode): OpenApiResponse => {
+    usesErrorResponse = true;
+    return {
+      description: ERROR_DESCRIPTIONS[code],
+      content: { 'application/json': { schema: { $ref: `#/components/schemas/${ERROR_RESPONSE_COMPONENT}` } } }
+    };
+  };
+
+  for (const module of list) {
+    for (const route of (module.routes ?? []) as readonly RouteSpec<any, any, any, any, any>[]) {
+      const { definition, schemas: routeSchemas } = route;
+      const path = toOpenApiPath(definition.path);
+      const pattern = parsePathPattern(definition.path);
+
+      const parameters = [
+        ...buildParameters('path', routeSchemas.params, pattern.paramNames),
+        ...buildParameters('query', routeSchemas.query),
+        ...buildParameters('header', routeSchemas.headers)
+      ];
+
+      const responses: Record<string, OpenApiResponse> = {};
+      for (const entry of listResponses(routeSchemas.response, definition)) {
+        const declared = isResponseMap(routeSchemas.response) ? definition.output?.responses?.[String(entry.status)] : definition.output;
+        const headerParameters = buildParameters('header', entry.headers);
+        responses[String(entry.status)] = {
+          description:
+            definition.output?.responses?.[String(entry.status)]?.description ??
+            (entry.status >= 200 && entry.status < 300 ? 'Success' : `Status ${entry.status}`),
+          headers:
+            headerParameters.length > 0
+              ? Object.fromEntries(
+                  headerParameters.map(({ name, required, description, schema }) => [name, { required, description, schema }])
+                )
+              : undefined,
+          content:
+            entry.body && !isEmptySchema(entry.body)
+              ? { 'application/json': { schema: schemaFor(entry.body, declared?.body, definition.name) } }
+              : undefined
+        };
+      }
+
+      const errorCodes = new Set<ModuleErrorCode>((definition.errors ?? []).map((error) => error.code));
+      if (routeSchemas.params || routeSchemas.query || routeSchemas.body || routeSchemas.headers) {
+        errorCodes.add('validation');
+      }
+      if (definition.auth) {
+        errorCodes.add('auth');
+      }
+      for (const code of errorCodes) {
+        const status = String(MODULE_ERROR_STATUS[code]);
+        if (!(status in responses)) {
+          responses[status] = errorResponse(code);
+        }
+      }
+
+      const operation: OpenApiOperation = {
+        operationId: definition.name,
+        summary: definition.summary,
+        description: definition.description,
+        tags: definition.tags && definition.tags.length > 0 ? [...definition.tags] : [module.manifest.name],
+        parameters: parameters.length > 0 ? parameters : undefined,
+        requestBody: routeSchemas.body
+          ? {
+              required: !routeSchemas.body.isOptional(),
+              content: {
+                'application/json': { schema: schemaFor(routeSchemas.body, definition.input?.body, definition.name) }
+              }
+            }
+          : undefined,
+        responses
+      };
+
+      paths[path] = { ...(paths[path] ?? {}), [definition.method.toLowerCase()]: operation };
+    }
+  }
+
+  if (usesErrorResponse) {
+    schemas[ERROR_RESPONSE_COMPONENT] = moduleErrorResponseSchema;
+  }
+
+  const [first] = list;
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title ?? (list.length === 1 && first ? first.manifest.name : 'Webstir modules'),
+      version: options.version ?? (list.length === 1 && first ? first.manifest.version : '0.0.0'),
+      description: options.description
+    },
+    servers: options.servers && options.servers.length > 0 ? [...options.servers] : undefined,
+    paths,
+    components: { schemas }
+  };
+}
@@ -0,0 +1,279 @@
+import type { z } from 'zod';
+
+import type { EnvAccessor, Logger, ModuleDefinition, ModuleDiagnostic, SSRContext, ViewSpec } from '../index.js';
+import { matchPath, parsePathPattern, type PathPattern } from '../runtime/paths.js';
+
+export interface PrerenderPage {
+  readonly module: string;
+  readonly view: string;
+  readonly path: string;
+  readonly params: Record<string, unknown>;
+  /** Output location of the loader data, relative to the output directory. */
+  readonly dataPath: string;
+  readonly data: unknown;
+  readonly revalidateSeconds?: number;
+  /** ISO timestamp after which the page should be regenerated. */
+  readonly revalidateAt?: string;
+}
+
+export interface PrerenderManifest {
+  readonly generatedAt: string;
+  readonly pages: readonly Omit<PrerenderPage, 'data'>[];
+}
+
+export interface StaticSitePlan {
+  readonly pages: readonly PrerenderPage[];
+  readonly manifest: PrerenderManifest;
+  readonly diagnostics: readonly ModuleDiagnostic[];
+}
+
+export interface PlanStaticSiteOptions<TContext extends SSRContext = SSRContext> {
+  /** Origin used to build `SSRContext.url` for each page. */
+  readonly baseUrl: string;
+  readonly env: EnvAccessor;
+  readonly logger: Logger;
+  readonly now?: () => Date;
+  /** Extends the synthetic context (auth, custom services) before it reaches loaders. */
+  readonly createContext?: (context: SSRContext) => TContext;
+}
+
+interface PlannedPath {
+  readonly path: string;
+  readonly params: Record<string, unknown>;
+}
+
+// Resolves `.` and `..` the way a file system would; `undefined` when the path climbs above the root.
+const normalizeSegments = (path: string): string[] | undefined => {
+  const resolved: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      if (resolved.length === 0) {
+        return undefined;
+      }
+      resolved.pop();
+      continue;
+    }
+    resolved.push(segment);
+  }
+  return resolved;
+};
+
+const toDataPath = (segments: readonly string[]): string => (segments.length === 0 ? 'index.json' : `${segments.join('/')}/index.json`);
+
+const fillPattern = (
+  pattern: PathPattern,
+  params: Record<string, unknown>
+): { path?: string; missing: string[]; dotted: string[] } => {
+  const missing: string[] = [];
+  const dotted: string[] = [];
+  const segments = pattern.segments.map((segment) => {
+    if (segment.kind === 'static') {
+      return segment.value;
+    }
+    const value = params[segment.name];
+    if (value === undefined || value === null || value === '') {
+      missing.push(segment.name);
+      return '';
+    }
+    // `encodeURIComponent` leaves these as they are, and they would move the output file.
+    if (String(value) === '.' || String(value) === '..') {
+      dotted.push(segment.name);
+    }
+    return encodeURIComponent(String(value));
+  });
+  return missing.length > 0 || dotted.length > 0 ? { missing, dotted } : { path: `/${segments.join('/')}`, missing, dotted };
+};
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues.map((issue) => `${issue.path.join('.') || 'params'}: ${issue.message}`).join('; ');
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error)).replace(/\.$/, '');
+
+/**
+ * Expands every `renderMode: 'ssg'` view into concrete pages, runs its loader with a
+ * synthetic `SSRContext`, and records the outputs in a prerender manifest. Problems are
+ * returned as diagnostics instead of aborting the whole plan.
+ */
+export async function planStaticSite<TContext extends SSRContext = SSRContext>(
+  modules: ModuleDefinition<any, any, any, any> | readonly ModuleDefinition<any, any, any, any>[],
+  options: PlanStaticSiteOptions<TContext>
+): Promise<StaticSitePlan> {
+  const list: readonly ModuleDefinition<any, any, any, any>[] = Array.isArray(modules) ? modules : [modules as ModuleDefinition];
+  const now = options.now ?? (() => new Date());
+  const generatedAt = now();
+  const diagnostics: ModuleDiagnostic[] = [];
+  const pages: PrerenderPage[] = [];
+  const claimed = new Map<string, string>();
+
+  for (const module of list) {
+    const moduleName = module.manifest.name;
+
+    for (const view of (module.views ?? []) as readonly ViewSpec<any, any, any>[]) {
+      const { definition } = view;
+      if (definition.renderMode !== 'ssg') {
+        continue;
+      }
+
+      const label = `View "${definition.name}" (${moduleName})`;
+      const pattern = parsePathPattern(definition.path);
+      const planned: PlannedPath[] = [];
+
+      const accept = (raw: Record<string, unknown>, origin: string) => {
+        let params: Record<string, unknown> = raw;
+        if (view.params) {
+          const parsed = (view.params as z.ZodTypeAny).safeParse(raw);
+          if (!parsed.success) {
+            diagnostics.push({ severity: 'error', message: `${label} ${origin} has invalid params: ${describeIssues(parsed.error)}.` });
+            return;
+          }
+          params = parsed.data;
+        }
+        const filled = fillPattern(pattern, raw);
+        if (filled.missing.length > 0) {
+          diagnostics.push({ severity: 'error', message: `${label} ${origin} is missing params: ${filled.missing.join(', ')}.` });
+          return;
+        }
+        if (!filled.path) {
+          diagnostics.push({ severity: 'error', message: `${label} ${origin} has "." or ".." as params: ${filled.dotted.join(', ')}.` });
+          return;
+        }
+        planned.push({ path: filled.path, params });
+      };
+
+      for (const staticPath of definition.staticPaths ?? []) {
+        const matched = matchPath(pattern, staticPath);
+        if (!matched) {
+          diagnostics.push({ severity: 'error', message: `${label} static path ${staticPath} does not match ${definition.path}.` });
+          continue;
+        }
+        accept(matched, `static path ${staticPath}`);
+      }
+
+      if (view.getStaticPaths) {
+        try {
+          const entries = await view.getStaticPaths({ env: options.env, logger: options.logger, now });
+          entries.forEach((entry: Record<string, unknown>, index: number) => accept(entry, `getStaticPaths()[${index}]`));
+        } catch (error) {
+          diagnostics.push({ severity: 'error', message: `${label} getStaticPaths failed: ${describeError(error)}.` });
+        }
+      }
+
+      if (!definition.staticPaths && !view.getStaticPaths) {
+        if (pattern.paramNames.length > 0) {
+          diagnostics.push({
+            severity: 'error',
+            message: `${label} has path params (${pattern.paramNames.join(', ')}) but no staticPaths or getStaticPaths.`
+          });
+        } else {
+          accept({}, 'path');
+        }
+      }
+
+      for (const { path, params } of planned) {
+        const segments = normalizeSegments(path);
+        if (!segments) {
+          diagnostics.push({ severity: 'error', message: `${label} output path ${path} resolves outside the output directory.` });
+          continue;
+        }
+        // Claimed by data path, so `/docs/` and `/docs` (or `/a/./b` and `/a/b`) count as one page.
+        const dataPath = toDataPath(segments);
+        const owner = claimed.get(dataPath);
+        if (owner === label) {
+          // staticPaths and getStaticPaths may both list the same page.
+          continue;
+        }
+        if (owner) {
+          diagnostics.push({ severity: 'error', message: `${label} output path ${path} is already generated by ${owner}.` });
+          continue;
+        }
+        claimed.set(dataPath, label);
+
+        const base: SSRContext = {
+          url: new URL(path, options.baseUrl),
+          params: params as Record<string, string>,
+          cookies: {},
+          headers: {},
+          auth: undefined,
+          session: null,
+          env: options.env,
+          logger: options.logger,
+          requestId: `ssg:${path}`,
+          now
+        };
+        const context = options.createContext ? options.createContext(base) : base;
+
+        let data: unknown;
+        try {
+          data = await view.load({ ...context, params });
+        } catch (error) {
+          diagnostics.push({ severity: 'error', message: `${label} loader failed for ${path}: ${describeError(error)}.` });
+          continue;
+        }
+
+        const checked = (view.data as z.ZodTypeAny).safeParse(data);
+        if (!checked.success) {
+          diagnostics.push({ severity: 'error', message: `${label} loader returned invalid data for ${path}: ${describeIssues(checked.error)}.` });
+          continue;
+        }
+
+        const revalidateSeconds = definition.ssg?.revalidateSeconds;
+        pages.push({
+          module: moduleName,
+          view: definition.name,
+          path,
+          params,
+          dataPath,
+          data: checked.data,
+          revalidateSeconds,
+          revalidateAt:
+            revalidateSeconds !== undefined ? new Date(generatedAt.getTime() + revalidateSeconds * 1000).toISOString() : undefined
+        });
+      }
+    }
+  }
+
+  return {
+    pages,
+    manifest: {
+      generatedAt: generatedAt.toISOString(),
+      pages: pages.map(({ data: _data, ...page }) => page)
+    },
+    diagnostics
+  };
+}
+
+/**
+ * Writes each page's data to `<outDir>/<dataPath>` and the manifest to
+ * `<outDir>/prerender-manifest.json`. Node only; returns the written file paths. Throws before
+ * writing anything when a `dataPath` resolves outside `outDir`.
+ */
+export async function writePrerenderOutput(plan: StaticSitePlan, outDir: string): Promise<string[]> {
+  const { mkdir, writeFile } = await import('node:fs/promises');
+  const { dirname, isAbsolute, join, relative, resolve, sep } = await import('node:path');
+  const root = resolve(outDir);
+  const written: string[] = [];
+
+  for (const page of plan.pages) {
+    const fromRoot = relative(root, resolve(root, page.dataPath));
+    if (fromRoot === '' || fromRoot === '..' || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+      throw new Error(`Prerender data path ${page.dataPath} of view "${page.view}" resolves outside ${root}.`);
+    }
+  }
+
+  const write = async (relativePath: string, value: unknown) => {
+    const filePath = join(outDir, relativePath);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, `${JSON.stringify(value, null, 2)}\n`, 'utf8');
+    written.push(filePath);
+  };
+
+  for (const page of plan.pages) {
+    await write(page.dataPath, page.data);
+  }
+  await write('prerender-manifest.json', plan.manifest);
+
+  return written;
+}
@@ -1,7 +1,9 @@
 import { z } from 'zod';
 
+import { parseCronExpression } from './runtime/cron.js';
+
 // Centralized manifest contract version used by providers and examples.
-export const CONTRACT_VERSION = '1.0.0' as const;
+export const CONTRACT_VERSION = '1.1.0' as const;
 export const contractVersionLiteral = z.literal(CONTRACT_VERSION);
 
 export type ModuleKind = 'frontend' | 'backend';
@@ -94,6 +96,20 @@ export interface EnvAccessor {
   entries(): Record<string, string | undefined>;
 }
 
+/** Zod object a module declares as `ModuleDefinition.env`, one key per environment variable. */
+export type ModuleEnvSchema = z.AnyZodObject;
+
+/** `EnvAccessor` that also exposes the variables parsed with the module's `env` schema. */
+export interface ModuleEnvAccessor<TValues = Record<string, unknown>> extends EnvAccessor {
+  readonly values: Readonly<TValues>;
+  value<TName extends keyof TValues>(name: TName): TValues[TName];
+}
+
+/** Typed accessor for a module's `env` schema; use it as the `TEnv` of `RequestContext`. */
+export type ModuleEnv<TSchema extends ModuleEnvSchema> = ModuleEnvSchema extends TSchema
+  ? ModuleEnvAccessor<any>
+  : ModuleEnvAccessor<z.infer<TSchema>>;
+
 export interface RequestContext<
   TRequest = unknown,
   TReply = unknown,
@@ -112,6 +128,10 @@ export interface RequestContext<
   readonly logger: TLogger;
   readonly requestId: string;
   readonly now: () => Date;
+  readonly events?: EventBus;
+  readonly services?: ServiceResolver;
+  /** Set while a `transactional` handler runs; `db` is then the transaction client. */
+  readonly transaction?: TransactionScope<TDatabase>;
 }
 
 export interface SSRContext<
@@ -145,27 +165,57 @@ export interface CreateSessionInput<TData = Record<string, unknown>> {
   readonly userId?: string;
   readonly data: TData;
   readonly expiresInSeconds?: number;
+  /** Absolute expiry; takes precedence over `expiresInSeconds` and is never extended. */
+  readonly expiresAt?: Date;
 }
 
 export type PermissionCheckResult =
   | { readonly allowed: true }
   | { readonly allowed: false; readonly reason?: string };
 
+/** What a provider sees of an unsafe request when checking its CSRF token. */
+export interface CsrfCheckRequest {
+  readonly method: HttpMethod;
+  /** Lower-cased header names. */
+  readonly headers: Record<string, string>;
+  /** Unvalidated request body, for tokens sent as a form field. */
+  readonly body?: unknown;
+}
+
 export interface AuthProvider<TSession extends AuthSession = AuthSession> {
   getSession(context: RequestContext | SSRContext): Promise<TSession | null> | TSession | null;
   createSession(input: CreateSessionInput<TSession['data']>, context: RequestContext | SSRContext): Promise<TSession> | TSession;
   invalidateSession(sessionId: string, context: RequestContext | SSRContext): Promise<void> | void;
   getCsrfToken?(context: RequestContext | SSRContext): Promise<string> | string;
+  /** Called by the dispatcher for every `POST`, `PUT`, `PATCH`, and `DELETE` request. */
+  verifyCsrfToken?(context: RequestContext | SSRContext, request: CsrfCheckRequest): Promise<PermissionCheckResult> | PermissionCheckResult;
   verifyPermissions?(context: RequestContext | SSRContext, permissions: readonly string[]): Promise<PermissionCheckResult> | PermissionCheckResult;
 }
 
 export interface DatabaseTransaction<TDatabase = unknown> {
+  /** Commits when `callback` resolves and rolls back when it throws. */
   readonly run: <TResult>(callback: (client: TDatabase) => Promise<TResult> | TResult) => Promise<TResult>;
 }
 
+export interface TransactionOptions {
+  readonly isolationLevel?: TransactionIsolationLevel;
+}
+
 export interface DatabaseProvider<TDatabase = unknown> {
   readonly client: TDatabase;
-  transaction?(): DatabaseTransaction<TDatabase>;
+  transaction?(options?: TransactionOptions): DatabaseTransaction<TDatabase>;
+  /** Nested transaction on a transaction client, usually a `SAVEPOINT`. Without it, nested units join the outer transaction. */
+  savepoint?(client: TDatabase): DatabaseTransaction<TDatabase>;
+}
+
+/** The transaction a handler runs in, as `RequestContext.transaction` / `JobContext.transaction`. */
+export interface TransactionScope<TDatabase = unknown> {
+  readonly client: TDatabase;
+  /** 0 for the outermost transaction, 1 for the first savepoint, and so on. */
+  readonly depth: number;
+  readonly isolationLevel?: TransactionIsolationLevel;
+  /** Runs after the outermost transaction commits; dropped if this scope or an outer one rolls back. */
+  afterCommit(callback: () => Promise<void> | void): void;
 }
 
 export interface CacheProvider<TKey = string, TValue = unknown> {
@@ -186,6 +236,41 @@ export interface QueueProvider<TPayload = unknown> {
   process(handler: (message: QueueMessage<TPayload>) => Promise<void> | void): Promise<void> | void;
 }
 
+export type TelemetryAttributes = Readonly<Record<string, string | number | boolean>>;
+
+/** Identifies a span across process boundaries; `traceFlags` bit 0 is the W3C "sampled" flag. */
+export interface SpanContext {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly traceFlags: number;
+}
+
+export interface StartSpanOptions {
+  readonly parent?: SpanContext;
+  readonly attributes?: TelemetryAttributes;
+  readonly startTime?: Date;
+}
+
+export interface Span {
+  readonly name: string;
+  readonly context: SpanContext;
+  setAttribute(key: string, value: string | number | boolean): void;
+  setStatus(status: 'ok' | 'error', message?: string): void;
+  recordException(error: unknown): void;
+  end(endTime?: Date): void;
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: StartSpanOptions): Span;
+}
+
+export interface Metrics {
+  /** Adds `value` (default 1) to a counter. */
+  increment(name: string, value?: number, attributes?: TelemetryAttributes): void;
+  /** Records one measurement, such as a duration in milliseconds. */
+  record(name: string, value: number, attributes?: TelemetryAttributes): void;
+}
+
 export interface TestingManifest {
   readonly name: string;
   readonly version: string;
@@ -235,14 +320,78 @@ export const routeInputSchema = z
 
 export type RouteInputDefinition = z.infer<typeof routeInputSchema>;
 
+export const routeResponseDefinitionSchema = z.object({
+  body: schemaReferenceSchema.optional(),
+  headers: schemaReferenceSchema.optional(),
+  description: z.string().optional()
+});
+
+export type RouteResponseDefinition = z.infer<typeof routeResponseDefinitionSchema>;
+
 export const routeOutputSchema = z.object({
-  body: schemaReferenceSchema,
+  body: schemaReferenceSchema.optional(),
   status: z.number().int().min(100).max(599).optional(),
-  headers: schemaReferenceSchema.optional()
+  headers: schemaReferenceSchema.optional(),
+  // Every declared response keyed by status code (e.g. "200", "201", "204").
+  responses: z.record(z.string().regex(/^[1-5]\d{2}$/, 'response keys must be HTTP status codes'), routeResponseDefinitionSchema).optional()
 });
 
 export type RouteOutputDefinition = z.infer<typeof routeOutputSchema>;
 
+export const authRequirementSchema = z
+  .object({
+    // Implied when `permissions` or `roles` are present.
+    required: z.boolean().optional(),
+    // All listed permissions are checked through `AuthProvider.verifyPermissions`.
+    permissions: z.array(z.string().min(1)).optional(),
+    // The session must hold at least one of the listed roles.
+    roles: z.array(z.string().min(1)).optional()
+  })
+  .strict();
+
+export type AuthRequirement = z.infer<typeof authRequirementSchema>;
+
+// `true` varies by every value, a list by the named keys only.
+const cacheVarySourceSchema = z.union([z.boolean(), z.array(z.string().min(1))]);
+
+export const routeCachePolicySchema = z
+  .object({
+    // How long a GET/HEAD response is served from the cache. Routes without it are not cached.
+    ttlSeconds: z.number().int().positive().optional(),
+    // After `ttlSeconds`, a stale response is still served for this long while it is refreshed in the background.
+    staleWhileRevalidateSeconds: z.number().int().positive().optional(),
+    // Params and query vary the key by default; headers and the session only when listed.
+    vary: z
+      .object({
+        params: cacheVarySourceSchema.optional(),
+        query: cacheVarySourceSchema.optional(),
+        headers: z.array(z.string().min(1)).optional(),
+        session: z.boolean().optional()
+      })
+      .strict()
+      .optional(),
+    // Tags attached to cached responses; `{name}` is replaced by the path param of that name.
+    tags: z.array(z.string().min(1)).optional(),
+    // Tags invalidated after a successful (2xx) response, typically on mutations.
+    invalidates: z.array(z.string().min(1)).optional(),
+    // Lets shared caches store the response (`cache-control: public`); ignored for routes with `auth` or `vary.session`.
+    public: z.boolean().optional(),
+    // Cache hits are served without running middleware, so routes with middleware are only cached when they opt in.
+    skipMiddlewareOnHit: z.boolean().optional()
+  })
+  .strict();
+
+export type RouteCachePolicy = z.infer<typeof routeCachePolicySchema>;
+
+export const transactionIsolationLevelSchema = z.enum(['read uncommitted', 'read committed', 'repeatable read', 'serializable']);
+
+export type TransactionIsolationLevel = z.infer<typeof transactionIsolationLevelSchema>;
+
+// `true` uses the database's default isolation level.
+export const transactionalSchema = z.union([z.boolean(), transactionIsolationLevelSchema]);
+
+export type Transactional = z.infer<typeof transactionalSchema>;
+
 export const routeDefinitionSchema = z.object({
   name: z.string().min(1),
   method: httpMethodSchema,
@@ -253,6 +402,11 @@ export const routeDefinitionSchema = z.object({
   input: routeInputSchema.optional(),
   output: routeOutputSchema.optional(),
   errors: z.array(moduleErrorSchema).optional(),
+  middleware: z.array(z.string().min(1)).optional(),
+  auth: authRequirementSchema.optional(),
+  cache: routeCachePolicySchema.optional(),
+  // Runs the handler in a database transaction; error responses and thrown errors roll it back.
+  transactional: transactionalSchema.optional(),
   renderMode: z.enum(['ssg', 'ssr', 'spa']).optional(),
   staticPaths: z.array(z.string().min(1)).optional(),
   ssg: z
@@ -266,16 +420,49 @@ export type RouteDefinition = z.infer<typeof routeDefinitionSchema>;
 
 export type InferOrNever<TSchema extends z.ZodTypeAny | undefined> = TSchema extends z.ZodTypeAny ? z.infer<TSchema> : Record<string, never>;
 
+export interface RouteResponseSchema {
+  readonly body?: z.ZodTypeAny;
+  readonly headers?: z.ZodTypeAny;
+}
+
+/** Response schemas keyed by numeric status code; a bare Zod schema is shorthand for `{ body }`. */
+export type RouteResponseMap = { readonly [status: number]: z.ZodTypeAny | RouteResponseSchema };
+
+/** A single success body schema, or one entry per status code. */
+export type RouteResponses = z.ZodTypeAny | RouteResponseMap;
+
+type ResponseBodySchema<TEntry> = TEntry extends z.ZodTypeAny
+  ? TEntry
+  : TEntry extends { readonly body: infer TBody extends z.ZodTypeAny }
+    ? TBody
+    : undefined;
+
+export type InferResponseBody<TEntry> = ResponseBodySchema<TEntry> extends z.ZodTypeAny ? z.infer<ResponseBodySchema<TEntry>> : undefined;
+
+// A conditional rather than `keyof TResponse & number` so its constraint includes `number`, which
+// keeps literal statuses in handler return values from widening during inference.
+type ResponseStatus<TResponse> = TResponse extends z.ZodTypeAny ? number : keyof TResponse & number;
+
+/** `{ status, body }` pairs a route can return; narrowing on `status` narrows `body`. */
+export type RouteResponseVariant<TResponse extends RouteResponses> = {
+  [TStatus in ResponseStatus<TResponse>]: TResponse extends z.ZodTypeAny
+    ? { readonly status?: TStatus; readonly body: z.infer<TResponse> }
+    : ResponseBodySchema<TResponse[TStatus & keyof TResponse]> extends z.ZodTypeAny
+      ? { readonly status: TStatus; readonly body: InferResponseBody<TResponse[TStatus & keyof TResponse]> }
+      : { readonly status: TStatus; readonly body?: undefined };
+}[ResponseStatus<TResponse>];
+
 export interface RouteSchemas<
   TParams extends z.ZodTypeAny | undefined,
   TQuery extends z.ZodTypeAny | undefined,
   TBody extends z.ZodTypeAny | undefined,
-  TResponse extends z.ZodTypeAny
+  TResponse extends RouteResponses,
+  THeaders extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined
 > {
   readonly params?: TParams;
   readonly query?: TQuery;
   readonly body?: TBody;
-  readonly headers?: z.ZodTypeAny;
+  readonly headers?: THeaders;
   readonly response: TResponse;
   readonly errors?: readonly z.ZodTypeAny[];
 }
@@ -291,11 +478,9 @@ export type RouteHandlerContext<
   readonly body: InferOrNever<TBody>;
 };
 
-export interface RouteSuccessResponse<TResponse extends z.ZodTypeAny> {
-  readonly status?: number;
-  readonly body: z.infer<TResponse>;
+export type RouteSuccessResponse<TResponse extends RouteResponses> = RouteResponseVariant<TResponse> & {
   readonly headers?: Record<string, string>;
-}
+};
 
 export interface RouteErrorResponse {
   readonly status?: number;
@@ -303,14 +488,49 @@ export interface RouteErrorResponse {
   readonly headers?: Record<string, string>;
 }
 
-export type RouteHandlerResult<TResponse extends z.ZodTypeAny> = RouteSuccessResponse<TResponse> | RouteErrorResponse;
+export type RouteHandlerResult<TResponse extends RouteResponses> = RouteSuccessResponse<TResponse> | RouteErrorResponse;
+
+export const middlewareDefinitionSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  // `module` (the default) applies to every route; `route` only where a route lists it in `middleware`.
+  scope: z.enum(['module', 'route']).optional()
+});
+
+export type MiddlewareDefinition = z.infer<typeof middlewareDefinitionSchema>;
+
+export type MiddlewareNext<TAdded extends object> = keyof TAdded extends never
+  ? (additions?: TAdded) => Promise<RouteHandlerResult<RouteResponses>>
+  : (additions: TAdded) => Promise<RouteHandlerResult<RouteResponses>>;
+
+export type MiddlewareHandler<TContext extends RequestContext, TAdded extends object> = (
+  context: TContext,
+  next: MiddlewareNext<TAdded>
+) => Promise<RouteHandlerResult<RouteResponses>> | RouteHandlerResult<RouteResponses>;
+
+export interface MiddlewareSpec<TContext extends RequestContext = RequestContext, TAdded extends object = {}> {
+  readonly definition: MiddlewareDefinition;
+  readonly handler: MiddlewareHandler<TContext, TAdded>;
+}
+
+type UnionToIntersection<TUnion> = (TUnion extends unknown ? (value: TUnion) => void : never) extends (value: infer TIntersection) => void
+  ? TIntersection
+  : never;
+
+type AddedBy<TMiddleware> = TMiddleware extends MiddlewareSpec<any, infer TAdded> ? TAdded : never;
+
+export type MiddlewareAdditions<TMiddleware extends readonly MiddlewareSpec<any, any>[]> = UnionToIntersection<AddedBy<TMiddleware[number]>>;
+
+/** Request context as seen by a handler running behind the given middleware. */
+export type ContextWith<TContext extends RequestContext, TMiddleware extends readonly MiddlewareSpec<any, any>[]> = TContext &
+  MiddlewareAdditions<TMiddleware>;
 
 export type RouteHandler<
   TContext extends RequestContext,
   TParams extends z.ZodTypeAny | undefined,
   TQuery extends z.ZodTypeAny | undefined,
   TBody extends z.ZodTypeAny | undefined,
-  TResponse extends z.ZodTypeAny
+  TResponse extends RouteResponses
 > = (
   context: RouteHandlerContext<TContext, TParams, TQuery, TBody>
 ) => Promise<RouteHandlerResult<TResponse>> | RouteHandlerResult<TResponse>;
@@ -320,11 +540,16 @@ export interface RouteSpec<
   TParams extends z.ZodTypeAny | undefined = undefined,
   TQuery extends z.ZodTypeAny | undefined = undefined,
   TBody extends z.ZodTypeAny | undefined = undefined,
-  TResponse extends z.ZodTypeAny = z.ZodTypeAny
+  TResponse extends RouteResponses = z.ZodTypeAny,
+  TName extends string = string,
+  // Only used to type the headers a client sends; handlers read headers from the request.
+  THeaders extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined
 > {
-  readonly definition: RouteDefinition;
-  readonly schemas: RouteSchemas<TParams, TQuery, TBody, TResponse>;
-  readonly handler: RouteHandler<TContext, TParams, TQuery, TBody, TResponse>;
+  readonly definition: RouteDefinition & { readonly name: TName };
+  readonly schemas: RouteSchemas<TParams, TQuery, TBody, TResponse, THeaders>;
+  // `NoInfer` keeps the handler's return value from widening the response types declared in `schemas`.
+  readonly handler: RouteHandler<TContext, TParams, TQuery, TBody, NoInfer<TResponse>>;
+  readonly middleware?: readonly MiddlewareSpec<any, any>[];
 }
 
 export const viewDefinitionSchema = z.object({
@@ -335,6 +560,7 @@ export const viewDefinitionSchema = z.object({
   tags: z.array(z.string()).optional(),
   params: schemaReferenceSchema.optional(),
   data: schemaReferenceSchema.optional(),
+  auth: authRequirementSchema.optional(),
   renderMode: z.enum(['ssg', 'ssr', 'spa']).optional(),
   staticPaths: z.array(z.string().min(1)).optional(),
   ssg: z
@@ -359,6 +585,20 @@ export type ViewLoader<
   TData extends z.ZodTypeAny
 > = (context: ViewLoaderContext<TContext, TParams>) => Promise<z.infer<TData>> | z.infer<TData>;
 
+export interface StaticPathsContext {
+  readonly env: EnvAccessor;
+  readonly logger: Logger;
+  readonly now: () => Date;
+}
+
+export type StaticPathParams<TParams extends z.ZodTypeAny | undefined> = TParams extends z.ZodTypeAny
+  ? z.input<TParams>
+  : Record<string, string>;
+
+export type StaticPathsLoader<TParams extends z.ZodTypeAny | undefined> = (
+  context: StaticPathsContext
+) => Promise<readonly StaticPathParams<TParams>[]> | readonly StaticPathParams<TParams>[];
+
 export interface ViewSpec<
   TContext extends SSRContext = SSRContext,
   TParams extends z.ZodTypeAny | undefined = undefined,
@@ -368,12 +608,16 @@ export interface ViewSpec<
   readonly params?: TParams;
   readonly data: TData;
   readonly load: ViewLoader<TContext, TParams, TData>;
+  /** Params to prerender when `renderMode` is `ssg`; validated against `params`. */
+  readonly getStaticPaths?: StaticPathsLoader<TParams>;
 }
 
 export const jobDefinitionSchema = z.object({
   name: z.string().min(1),
   schedule: z.string().optional(),
-  priority: z.union([z.number().int(), z.string()]).optional()
+  priority: z.union([z.number().int(), z.string()]).optional(),
+  // Runs the handler in a database transaction; a thrown error rolls it back.
+  transactional: transactionalSchema.optional()
 });
 
 export type JobDefinition = z.infer<typeof jobDefinitionSchema>;
@@ -386,51 +630,192 @@ export const eventDefinitionSchema = z.object({
 
 export type EventDefinition = z.infer<typeof eventDefinitionSchema>;
 
+export interface JobContext {
+  readonly env: EnvAccessor;
+  readonly logger: Logger;
+  readonly now: () => Date;
+  readonly db?: unknown;
+  readonly events?: EventBus;
+  readonly transaction?: TransactionScope;
+}
+
+export type JobHandlerContext<TContext extends JobContext, TPayload extends z.ZodTypeAny> = TContext & {
+  readonly payload: z.infer<TPayload>;
+  readonly message: QueueMessage<z.infer<TPayload>>;
+};
+
+export type JobHandler<TContext extends JobContext, TPayload extends z.ZodTypeAny> = (
+  context: JobHandlerContext<TContext, TPayload>
+) => Promise<void> | void;
+
+export interface JobSpec<TContext extends JobContext = JobContext, TPayload extends z.ZodTypeAny = z.ZodTypeAny> {
+  readonly definition: JobDefinition;
+  readonly payload: TPayload;
+  readonly handler: JobHandler<TContext, TPayload>;
+}
+
+export type EventHandlerContext<TContext extends JobContext, TPayload extends z.ZodTypeAny> = TContext & {
+  readonly payload: z.infer<TPayload>;
+  readonly event: EventEnvelope<z.infer<TPayload>>;
+};
+
+export type EventHandler<TContext extends JobContext, TPayload extends z.ZodTypeAny> = (
+  context: EventHandlerContext<TContext, TPayload>
+) => Promise<void> | void;
+
+export interface EventSpec<TContext extends JobContext = JobContext, TPayload extends z.ZodTypeAny = z.ZodTypeAny> {
+  readonly definition: EventDefinition;
+  readonly payload: TPayload;
+  readonly handler?: EventHandler<TContext, TPayload>;
+}
+
+export const eventSubscriptionDefinitionSchema = z.object({
+  event: z.string().min(1),
+  source: z.string().min(1).optional(),
+  payload: schemaReferenceSchema.optional(),
+  description: z.string().optional()
+});
+
+export type EventSubscriptionDefinition = z.infer<typeof eventSubscriptionDefinitionSchema>;
+
+export interface EventSubscriptionSpec<TContext extends JobContext = JobContext, TPayload extends z.ZodTypeAny = z.ZodTypeAny> {
+  readonly definition: EventSubscriptionDefinition;
+  readonly payload?: TPayload;
+  readonly handler: EventHandler<TContext, TPayload>;
+}
+
+export interface EventEnvelope<TPayload = unknown> {
+  readonly id: string;
+  readonly name: string;
+  readonly payload: TPayload;
+  readonly source?: string;
+  readonly occurredAt: Date;
+  readonly attempt: number;
+}
+
+export interface PublishOptions {
+  readonly id?: string;
+  readonly source?: string;
+}
+
+export type EventListener<TPayload = unknown> = (event: EventEnvelope<TPayload>) => Promise<void> | void;
+
+export interface EventBus {
+  publish<TPayload extends z.ZodTypeAny>(event: EventSpec<any, TPayload>, payload: z.input<TPayload>, options?: PublishOptions): Promise<void>;
+  subscribe<TPayload extends z.ZodTypeAny>(
+    event: Pick<EventSpec<any, TPayload>, 'definition' | 'payload'>,
+    listener: EventListener<z.infer<TPayload>>
+  ): () => void;
+  subscribe(event: string, listener: EventListener): () => void;
+}
+
 export const serviceDefinitionSchema = z.object({
   name: z.string().min(1),
-  description: z.string().optional()
+  description: z.string().optional(),
+  // `singleton` (the default) is created once at startup; `request` once per request.
+  scope: z.enum(['singleton', 'request']).optional()
 });
 
 export type ServiceDefinition = z.infer<typeof serviceDefinitionSchema>;
 
+export interface ServiceResolver {
+  get<TService>(service: ServiceSpec<TService, any>): TService;
+  get(name: string): unknown;
+  has(name: string): boolean;
+}
+
+export interface ServiceFactoryContext {
+  readonly env: EnvAccessor;
+  readonly logger: Logger;
+  readonly now: () => Date;
+  /** Resolves the services listed in `dependencies`. */
+  readonly services: ServiceResolver;
+  /** Set for `request`-scoped services. */
+  readonly request?: RequestContext;
+}
+
+export interface ServiceSpec<TService = unknown, TName extends string = string> {
+  readonly definition: ServiceDefinition & { readonly name: TName };
+  /** Services the factory resolves, by spec or name. Used for ordering and cycle detection. */
+  readonly dependencies?: readonly (ServiceSpec<any, any> | string)[];
+  readonly factory: (context: ServiceFactoryContext) => Promise<TService> | TService;
+  readonly dispose?: (service: TService) => Promise<void> | void;
+}
+
+export const moduleDependenciesSchema = z.object({
+  modules: z.array(z.string().min(1)).optional(),
+  services: z.array(z.string().min(1)).optional()
+});
+
+export type ModuleDependencies = z.infer<typeof moduleDependenciesSchema>;
+
+export const envVariableDefinitionSchema = z.object({
+  name: z.string().min(1),
+  required: z.boolean(),
+  secret: z.boolean().optional(),
+  description: z.string().optional(),
+  // Never set for secrets.
+  default: z.union([z.string(), z.number(), z.boolean()]).optional()
+});
+
+export type EnvVariableDefinition = z.infer<typeof envVariableDefinitionSchema>;
+
 export const moduleManifestSchema = z.object({
-  contractVersion: z.string().min(1),
+  contractVersion: z.string().regex(/^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/, 'contractVersion must be a semantic version'),
   name: z.string().min(1),
   version: z.string().min(1),
   kind: moduleKindSchema,
   capabilities: z.array(z.string()).optional(),
   // New: optional pass-through lists
   assets: z.array(z.string()).optional(),
-  middlewares: z.array(z.string()).optional(),
+  // Plain strings are still accepted for manifests written before middleware definitions existed.
+  middlewares: z.array(z.union([z.string(), middlewareDefinitionSchema])).optional(),
   routes: z.array(routeDefinitionSchema).optional(),
   views: z.array(viewDefinitionSchema).optional(),
   jobs: z.array(jobDefinitionSchema).optional(),
   events: z.array(eventDefinitionSchema).optional(),
   services: z.array(serviceDefinitionSchema).optional(),
+  subscriptions: z.array(eventSubscriptionDefinitionSchema).optional(),
+  // Modules that must initialize first, and services (from `services` of other modules or the host) this module needs.
+  dependencies: moduleDependenciesSchema.optional(),
+  // Environment variables the module reads, so deploy tooling can check an environment before rollout.
+  env: z.array(envVariableDefinitionSchema).optional(),
   init: z.string().optional(),
   dispose: z.string().optional()
 });
 
 export type ModuleManifest = z.infer<typeof moduleManifestSchema>;
 
-export interface ModuleLifecycleContext {
-  readonly env: EnvAccessor;
+export interface ModuleLifecycleContext<TEnv extends EnvAccessor = EnvAccessor> {
+  readonly env: TEnv;
   readonly logger: Logger;
+  readonly events?: EventBus;
+  readonly services?: ServiceResolver;
+  /** Aborted when the hook times out or the host cancels startup/shutdown. */
+  readonly signal?: AbortSignal;
 }
 
-export type ModuleLifecycleHook = (context: ModuleLifecycleContext) => Promise<void> | void;
+export type ModuleLifecycleHook<TEnv extends EnvAccessor = EnvAccessor> = (context: ModuleLifecycleContext<TEnv>) => Promise<void> | void;
 
 export interface ModuleDefinition<
   TRequestContext extends RequestContext = RequestContext,
   TSSRContext extends SSRContext = SSRContext,
   TRoutes extends readonly RouteSpec<TRequestContext, any, any, any, any>[] = readonly RouteSpec<TRequestContext, any, any, any, any>[],
-  TViews extends readonly ViewSpec<TSSRContext, any, any>[] = readonly ViewSpec<TSSRContext, any, any>[]
+  TViews extends readonly ViewSpec<TSSRContext, any, any>[] = readonly ViewSpec<TSSRContext, any, any>[],
+  TEnv extends ModuleEnvSchema = ModuleEnvSchema
 > {
   readonly manifest: ModuleManifest;
   readonly routes?: TRoutes;
   readonly views?: TViews;
-  readonly init?: ModuleLifecycleHook;
-  readonly dispose?: ModuleLifecycleHook;
+  readonly jobs?: readonly JobSpec<any, any>[];
+  readonly events?: readonly EventSpec<any, any>[];
+  readonly subscriptions?: readonly EventSubscriptionSpec<any, any>[];
+  readonly middleware?: readonly MiddlewareSpec<any, any>[];
+  readonly services?: readonly ServiceSpec<any, any>[];
+  /** Environment variables the module reads; validated before `init` and exposed as `env.values`. */
+  readonly env?: TEnv;
+  readonly init?: ModuleLifecycleHook<ModuleEnv<TEnv>>;
+  readonly dispose?: ModuleLifecycleHook<ModuleEnv<TEnv>>;
 }
 
 export interface BackendProvider<TDefinition extends ModuleDefinition = ModuleDefinition> extends ModuleProvider {
@@ -453,13 +838,35 @@ export interface QueueProviderCapability {
   readonly queue: QueueProvider | undefined;
 }
 
+export interface EventBusCapability {
+  readonly events: EventBus | undefined;
+}
+
+export interface TracerProviderCapability {
+  readonly tracer: Tracer | undefined;
+}
+
+export interface MetricsProviderCapability {
+  readonly metrics: Metrics | undefined;
+}
+
 export function defineRoute<
   TContext extends RequestContext,
   TParams extends z.ZodTypeAny | undefined = undefined,
   TQuery extends z.ZodTypeAny | undefined = undefined,
   TBody extends z.ZodTypeAny | undefined = undefined,
-  TResponse extends z.ZodTypeAny = z.ZodTypeAny
->(spec: RouteSpec<TContext, TParams, TQuery, TBody, TResponse>): RouteSpec<TContext, TParams, TQuery, TBody, TResponse> {
+  TResponse extends RouteResponses = z.ZodTypeAny,
+  TName extends string = string,
+  THeaders extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined
+>(
+  spec: RouteSpec<TContext, TParams, TQuery, TBody, TResponse, TName, THeaders>
+): RouteSpec<TContext, TParams, TQuery, TBody, TResponse, TName, THeaders> {
+  return spec;
+}
+
+export function defineMiddleware<TContext extends RequestContext = RequestContext, TAdded extends object = {}>(
+  spec: MiddlewareSpec<TContext, TAdded>
+): MiddlewareSpec<TContext, TAdded> {
   return spec;
 }
 
@@ -471,14 +878,232 @@ export function defineView<
   return spec;
 }
 
+export function defineJob<TContext extends JobContext, TPayload extends z.ZodTypeAny = z.ZodTypeAny>(
+  spec: JobSpec<TContext, TPayload>
+): JobSpec<TContext, TPayload> {
+  const { name, schedule } = spec.definition;
+  if (schedule !== undefined) {
+    const parsed = parseCronExpression(schedule);
+    if (!parsed.valid) {
+      throw new Error(`Job "${name}" has an invalid schedule "${schedule}": ${parsed.reason}.`);
+    }
+  }
+  return spec;
+}
+
+export function defineEvent<TContext extends JobContext, TPayload extends z.ZodTypeAny = z.ZodTypeAny>(
+  spec: EventSpec<TContext, TPayload>
+): EventSpec<TContext, TPayload> {
+  return spec;
+}
+
+export function defineSubscription<TContext extends JobContext, TPayload extends z.ZodTypeAny = z.ZodTypeAny>(
+  spec: EventSubscriptionSpec<TContext, TPayload>
+): EventSubscriptionSpec<TContext, TPayload> {
+  return spec;
+}
+
+export function defineService<TService, const TName extends string = string>(
+  spec: ServiceSpec<TService, TName>
+): ServiceSpec<TService, TName> {
+  return spec;
+}
+
 export function createModule<
   TRequestContext extends RequestContext,
   TSSRContext extends SSRContext,
   TRoutes extends readonly RouteSpec<TRequestContext, any, any, any, any>[] = readonly RouteSpec<TRequestContext, any, any, any, any>[],
-  TViews extends readonly ViewSpec<TSSRContext, any, any>[] = readonly ViewSpec<TSSRContext, any, any>[]
->(definition: ModuleDefinition<TRequestContext, TSSRContext, TRoutes, TViews>): ModuleDefinition<TRequestContext, TSSRContext, TRoutes, TViews> {
+  TViews extends readonly ViewSpec<TSSRContext, any, any>[] = readonly ViewSpec<TSSRContext, any, any>[],
+  TEnv extends ModuleEnvSchema = ModuleEnvSchema
+>(
+  definition: ModuleDefinition<TRequestContext, TSSRContext, TRoutes, TViews, TEnv>
+): ModuleDefinition<TRequestContext, TSSRContext, TRoutes, TViews, TEnv> {
   return definition;
 }
 
-export { fromTsRestRoute, fromTsRestRouter } from './adapters/ts-rest.js';
-export type { FromTsRestRouteOptions, FromTsRestRouterOptions, RouterRouteConfig } from './adapters/ts-rest.js';
+export { fromTsRestRoute, fromTsRestRouter, toTsRestRouter } from './adapters/ts-rest.js';
+export type { FromTsRestRouteOptions, FromTsRestRouterOptions, RouterRouteConfig, ToTsRestRouterOptions } from './adapters/ts-rest.js';
+
+export { fromOpenApiDocument, loadOpenApiDocument } from './adapters/openapi.js';
+export type {
+  FromOpenApiOptions,
+  FromOpenApiResult,
+  OpenApiOperationInfo,
+  OpenApiRouteConfig,
+  OpenApiSourceDocument
+} from './adapters/openapi.js';
+
+export { createDispatcher } from './runtime/dispatcher.js';
+export type {
+  DispatcherOptions,
+  DispatchQuery,
+  DispatchRequest,
+  DispatchResult,
+  RequestDispatcher,
+  RouteMatch
+} from './runtime/dispatcher.js';
+
+export { createCacheKeys, namespaceCache, withRouteCache } from './runtime/cache.js';
+export type {
+  CachedRouteResponse,
+  CacheTagKey,
+  CachingDispatcher,
+  ModuleCacheKey,
+  ModuleCacheKeys,
+  RouteCacheKey,
+  RouteCacheOptions
+} from './runtime/cache.js';
+
+export {
+  conflict,
+  domainError,
+  forbidden,
+  internalError,
+  isDevelopment,
+  MODULE_ERROR_STATUS,
+  ModuleException,
+  notFound,
+  serializeCause,
+  statusForErrors,
+  toModuleError,
+  unauthorized,
+  validationFailed,
+  zodIssueDetails
+} from './runtime/errors.js';
+export type { ModuleExceptionOptions, SerializeErrorOptions, ValidationIssueDetail } from './runtime/errors.js';
+
+export {
+  createModuleEnvAccessor,
+  describeModuleEnv,
+  envBoolean,
+  envSecret,
+  envUrl,
+  isEnvSecret,
+  loadModuleEnv
+} from './runtime/env.js';
+export type { EnvSource, LoadModuleEnvOptions, LoadModuleEnvResult } from './runtime/env.js';
+
+export { DEFAULT_REDACT_PATHS, createCaptureSink, createJsonSink, createLogger, createPrettySink } from './runtime/logger.js';
+export type { CaptureSink, CreateLoggerOptions, LogRecord, LogSink, PrettySinkOptions, StructuredLogger } from './runtime/logger.js';
+
+export {
+  createInMemoryMetrics,
+  createInMemoryTracer,
+  formatTraceparent,
+  instrumentJob,
+  instrumentLifecycleHook,
+  instrumentModule,
+  instrumentRoute,
+  instrumentView,
+  parseTraceparent
+} from './runtime/telemetry.js';
+export type {
+  InMemoryMetrics,
+  InMemoryTelemetryOptions,
+  InMemoryTracer,
+  InstrumentedContext,
+  InstrumentLifecycleOptions,
+  InstrumentOptions,
+  MetricMeasurement,
+  RecordedSpan
+} from './runtime/telemetry.js';
+
+export { toJsonSchema } from './generators/json-schema.js';
+export type { JsonSchema, ToJsonSchemaOptions } from './generators/json-schema.js';
+export { generateOpenApiDocument } from './generators/openapi.js';
+export type {
+  GenerateOpenApiOptions,
+  OpenApiDocument,
+  OpenApiHeader,
+  OpenApiMediaType,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiResponse
+} from './generators/openapi.js';
+
+export { validateModule } from './manifest/validate.js';
+export type { ValidateModuleOptions } from './manifest/validate.js';
+
+export { diffManifests } from './manifest/diff.js';
+export type { DiffManifestsOptions, ManifestChange, ManifestDiff, ManifestEntryKind, SemVerBump } from './manifest/diff.js';
+
+export { createDerivedModule, deriveManifest } from './manifest/derive.js';
+export type { DeriveManifestInput, DerivedModuleInput, ManifestOverrides } from './manifest/derive.js';
+
+export { isValidCronExpression, parseCronExpression } from './runtime/cron.js';
+export type { CronParseResult, CronSchedule } from './runtime/cron.js';
+export { createJobProcessor, enqueueJob, processJob } from './runtime/jobs.js';
+export type { JobProcessorOptions } from './runtime/jobs.js';
+export { runInTransaction } from './runtime/transactions.js';
+export type { RunInTransactionOptions, TransactionalContext } from './runtime/transactions.js';
+
+export { attachModuleEvents, createInMemoryEventBus } from './runtime/event-bus.js';
+export type { EventBusErrorReport, InMemoryEventBusOptions } from './runtime/event-bus.js';
+export { checkEventSubscriptions } from './manifest/subscriptions.js';
+
+export { createClient } from './runtime/client.js';
+export type {
+  CreateClientOptions,
+  RouteClient,
+  RouteClientInput,
+  RouteClientMethod,
+  RouteClientResult
+} from './runtime/client.js';
+
+export { resolveMiddleware, runMiddleware } from './runtime/middleware.js';
+
+export { checkAccess, checkCsrf, isSafeMethod } from './runtime/auth.js';
+export type { AccessCheckOptions, AccessCheckResult, CsrfCheckResult } from './runtime/auth.js';
+
+export { createCacheSessionStore, createMemorySessionStore, createSessionAuth } from './runtime/session-auth.js';
+export type {
+  CacheSessionStoreOptions,
+  MemorySessionStore,
+  SessionAuth,
+  SessionAuthOptions,
+  SessionCookieAccess,
+  SessionCookieOptions,
+  SessionRecord,
+  SessionStore
+} from './runtime/session-auth.js';
+
+export {
+  CONTRACT_COMPATIBILITY_MATRIX,
+  checkCompatibility,
+  getManifestRegistry,
+  migrateManifest
+} from './manifest/versions.js';
+export type {
+  CompatibilityCheckInput,
+  CompatibilityCheckResult,
+  CompatibilityMatrixEntry,
+  ManifestMigration,
+  ManifestRegistry,
+  ManifestVersion,
+  MigrateManifestResult
+} from './manifest/versions.js';
+export { isValidSemVerRange, satisfiesSemVer } from './manifest/semver.js';
+
+export { planStaticSite, writePrerenderOutput } from './generators/ssg.js';
+export type {
+  PlanStaticSiteOptions,
+  PrerenderManifest,
+  PrerenderPage,
+  StaticSitePlan
+} from './generators/ssg.js';
+
+export { createLifecycleRunner, planLifecycle } from './runtime/lifecycle.js';
+export type {
+  LifecycleHealth,
+  LifecyclePlan,
+  LifecyclePlanOptions,
+  LifecycleRunner,
+  LifecycleRunnerOptions,
+  LifecycleStartResult,
+  LifecycleStopResult,
+  ModuleHealth,
+  ModuleLifecycleState
+} from './runtime/lifecycle.js';
+
+export { createServiceContainer } from './runtime/services.js';
+export type { RequestServices, ServiceContainer, ServiceContainerOptions, ServiceStartResult } from './runtime/services.js';
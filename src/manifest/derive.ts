@@ -0,0 +1,196 @@
+import {
+  CONTRACT_VERSION,
+  type EventDefinition,
+  type EventSpec,
+  type EventSubscriptionDefinition,
+  type EventSubscriptionSpec,
+  type JobSpec,
+  type MiddlewareDefinition,
+  type MiddlewareSpec,
+  type ModuleDefinition,
+  type ModuleEnvSchema,
+  type ModuleManifest,
+  type RequestContext,
+  type RouteDefinition,
+  type RouteOutputDefinition,
+  type RouteResponses,
+  type RouteSpec,
+  type ServiceDefinition,
+  type SSRContext,
+  type ViewDefinition,
+  type ViewSpec
+} from '../index.js';
+import { describeModuleEnv } from '../runtime/env.js';
+import { isResponseMap, listResponses } from '../runtime/responses.js';
+import { inferSchemaReferences } from './schema-names.js';
+
+export type ManifestOverrides = Omit<ModuleManifest, 'contractVersion'> & {
+  readonly contractVersion?: string;
+};
+
+export interface DeriveManifestInput {
+  readonly manifest: ManifestOverrides;
+  readonly routes?: readonly RouteSpec<any, any, any, any, any>[];
+  readonly views?: readonly ViewSpec<any, any, any>[];
+  readonly jobs?: readonly JobSpec<any, any>[];
+  readonly events?: readonly EventSpec<any, any>[];
+  readonly subscriptions?: readonly EventSubscriptionSpec<any, any>[];
+  readonly services?: readonly { readonly definition: ServiceDefinition }[];
+  readonly middleware?: readonly MiddlewareSpec<any, any>[];
+  readonly env?: ModuleEnvSchema;
+}
+
+export type DerivedModuleInput<
+  TRequestContext extends RequestContext,
+  TSSRContext extends SSRContext,
+  TRoutes extends readonly RouteSpec<TRequestContext, any, any, any, any>[],
+  TViews extends readonly ViewSpec<TSSRContext, any, any>[],
+  TEnv extends ModuleEnvSchema = ModuleEnvSchema
+> = Omit<ModuleDefinition<TRequestContext, TSSRContext, TRoutes, TViews, TEnv>, 'manifest'> & {
+  readonly manifest: ManifestOverrides;
+};
+
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+
+const isEmpty = (value: object): boolean => Object.keys(value).length === 0;
+
+const byName = (entry: { readonly name: string }): string => entry.name;
+
+// Explicit entries win field by field; entries only present in the manifest are kept.
+const mergeEntries = <TEntry extends object>(
+  derived: readonly TEntry[],
+  explicit: readonly TEntry[] | undefined,
+  key: (entry: TEntry) => string = byName as (entry: TEntry) => string
+): TEntry[] | undefined => {
+  const overrides = new Map((explicit ?? []).map((entry) => [key(entry), entry]));
+  const merged = derived.map((entry) => {
+    const override = overrides.get(key(entry));
+    return override ? ({ ...entry, ...compact(override) } as TEntry) : entry;
+  });
+  const derivedKeys = new Set(derived.map(key));
+  merged.push(...(explicit ?? []).filter((entry) => !derivedKeys.has(key(entry))));
+  return merged.length > 0 ? merged : undefined;
+};
+
+const deriveRoute = (spec: RouteSpec<any, any, any, any, any>): RouteDefinition => {
+  const { definition, schemas } = spec;
+  const responseMap = isResponseMap(schemas.response);
+  const inferred = inferSchemaReferences(definition.name, {
+    params: schemas.params,
+    query: schemas.query,
+    body: schemas.body,
+    headers: schemas.headers,
+    response: responseMap ? undefined : schemas.response
+  });
+
+  const input = compact({
+    params: definition.input?.params ?? inferred.params,
+    query: definition.input?.query ?? inferred.query,
+    body: definition.input?.body ?? inferred.body,
+    headers: definition.input?.headers ?? inferred.headers
+  });
+
+  const middleware = spec.middleware?.map((entry) => entry.definition.name);
+
+  return compact({
+    ...definition,
+    input: isEmpty(input) ? undefined : input,
+    middleware: definition.middleware ?? (middleware && middleware.length > 0 ? middleware : undefined),
+    output: definition.output ?? (responseMap ? deriveResponses(definition.name, schemas.response) : inferred.response ? { body: inferred.response } : undefined)
+  });
+};
+
+// Map entries are named `<name>Response<status>` and `<name>Response<status>Headers`.
+const deriveResponses = (name: string, response: RouteResponses): RouteOutputDefinition => ({
+  responses: Object.fromEntries(
+    listResponses(response).map((entry) => {
+      const bodyKey = `response${entry.status}`;
+      const headersKey = `response${entry.status}Headers`;
+      const inferred = inferSchemaReferences(name, { [bodyKey]: entry.body, [headersKey]: entry.headers });
+      return [String(entry.status), compact({ body: inferred[bodyKey], headers: inferred[headersKey] })];
+    })
+  )
+});
+
+const deriveView = (spec: ViewSpec<any, any, any>): ViewDefinition => {
+  const { definition } = spec;
+  const inferred = inferSchemaReferences(definition.name, { params: spec.params, data: spec.data });
+  return compact({
+    ...definition,
+    params: definition.params ?? inferred.params,
+    data: definition.data ?? inferred.data
+  });
+};
+
+const deriveEvent = (spec: EventSpec<any, any>): EventDefinition => {
+  const { definition } = spec;
+  const inferred = inferSchemaReferences(definition.name, { payload: spec.payload });
+  return compact({ ...definition, payload: definition.payload ?? inferred.payload });
+};
+
+const deriveSubscription = (spec: EventSubscriptionSpec<any, any>): EventSubscriptionDefinition => {
+  const { definition } = spec;
+  const inferred = inferSchemaReferences(definition.event, { payload: spec.payload });
+  return compact({ ...definition, payload: definition.payload ?? inferred.payload });
+};
+
+const deriveMiddlewares = (input: DeriveManifestInput): MiddlewareDefinition[] => {
+  const entries = new Map<string, MiddlewareDefinition>();
+  for (const middleware of input.middleware ?? []) {
+    entries.set(middleware.definition.name, { ...middleware.definition, scope: middleware.definition.scope ?? 'module' });
+  }
+  for (const route of input.routes ?? []) {
+    for (const middleware of route.middleware ?? []) {
+      if (!entries.has(middleware.definition.name)) {
+        entries.set(middleware.definition.name, { ...middleware.definition, scope: 'route' });
+      }
+    }
+  }
+  return [...entries.values()];
+};
+
+const subscriptionKey = (entry: EventSubscriptionDefinition): string => `${entry.source ?? ''}:${entry.event}`;
+
+/**
+ * Builds a `ModuleManifest` from a module's specs. Anything set on `input.manifest`
+ * takes precedence over the derived values.
+ */
+export function deriveManifest(input: DeriveManifestInput): ModuleManifest {
+  const { manifest } = input;
+
+  return compact({
+    contractVersion: manifest.contractVersion ?? CONTRACT_VERSION,
+    ...compact(manifest),
+    routes: mergeEntries((input.routes ?? []).map(deriveRoute), manifest.routes),
+    views: mergeEntries((input.views ?? []).map(deriveView), manifest.views),
+    jobs: mergeEntries((input.jobs ?? []).map((job) => job.definition), manifest.jobs),
+    events: mergeEntries((input.events ?? []).map(deriveEvent), manifest.events),
+    middlewares: mergeEntries(
+      deriveMiddlewares(input),
+      manifest.middlewares?.map((entry) => (typeof entry === 'string' ? { name: entry } : entry))
+    ),
+    subscriptions: mergeEntries((input.subscriptions ?? []).map(deriveSubscription), manifest.subscriptions, subscriptionKey),
+    services: mergeEntries((input.services ?? []).map((service) => service.definition), manifest.services),
+    env: mergeEntries(input.env ? describeModuleEnv(input.env) : [], manifest.env)
+  });
+}
+
+/**
+ * `createModule` variant that derives `manifest.routes`, `manifest.views`, and the other
+ * entry lists from the specs instead of requiring them to be copied by hand.
+ */
+export function createDerivedModule<
+  TRequestContext extends RequestContext,
+  TSSRContext extends SSRContext,
+  TRoutes extends readonly RouteSpec<TRequestContext, any, any, any, any>[] = readonly RouteSpec<TRequestContext, any, any, any, any>[],
+  TViews extends readonly ViewSpec<TSSRContext, any, any>[] = readonly ViewSpec<TSSRContext, any, any>[],
+  TEnv extends ModuleEnvSchema = ModuleEnvSchema
+>(
+  definition: DerivedModuleInput<TRequestContext, TSSRContext, TRoutes, TViews, TEnv>
+): ModuleDefinition<TRequestContext, TSSRContext, TRoutes, TViews, TEnv> {
+  return {
+    ...definition,
+    manifest: deriveManifest(definition)
+  };
+}
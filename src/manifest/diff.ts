@@ -0,0 +1,425 @@
+import type {
+  AuthRequirement,
+  EventDefinition,
+  JobDefinition,
+  ModuleDiagnostic,
+  ModuleManifest,
+  RouteDefinition,
+  SchemaReference,
+  ViewDefinition
+} from '../index.js';
+import type { JsonSchema } from '../generators/json-schema.js';
+import { parsePathPattern } from '../runtime/paths.js';
+import { compareSemVer, parseSemVer } from './semver.js';
+
+export type ManifestEntryKind = 'route' | 'view' | 'event' | 'job';
+
+export type SemVerBump = 'major' | 'minor' | 'patch';
+
+export interface ManifestChange {
+  readonly entry: ManifestEntryKind;
+  readonly name: string;
+  readonly breaking: boolean;
+  /** Smallest version bump that covers this change: breaking → major, additions → minor, the rest → patch. */
+  readonly bump: SemVerBump;
+  readonly message: string;
+}
+
+export interface DiffManifestsOptions {
+  /**
+   * Resolves a `SchemaReference` to its JSON Schema. Without it, referenced schemas are only
+   * compared by name, and a changed reference counts as breaking.
+   */
+  readonly resolveSchema?: (reference: SchemaReference, side: 'previous' | 'next') => JsonSchema | undefined;
+  /** Attached to every diagnostic. */
+  readonly file?: string;
+}
+
+export interface ManifestDiff {
+  readonly changes: readonly ManifestChange[];
+  readonly breaking: boolean;
+  /** Bump required by the changes, or `undefined` when nothing changed. */
+  readonly bump?: SemVerBump;
+  /** `previous.version` with `bump` applied. */
+  readonly suggestedVersion?: string;
+  readonly diagnostics: readonly ModuleDiagnostic[];
+}
+
+// `input` schemas are what consumers send, `output` schemas what they receive; narrowing is
+// breaking in opposite directions for the two.
+type SchemaRole = 'input' | 'output';
+
+interface Collector {
+  breaking(message: string): void;
+  added(message: string): void;
+  changed(message: string): void;
+}
+
+const BUMP_ORDER: readonly SemVerBump[] = ['patch', 'minor', 'major'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const patternShape = (path: string): string =>
+  parsePathPattern(path)
+    .segments.map((segment) => (segment.kind === 'param' ? ':' : segment.value))
+    .join('/');
+
+const sameList = (left: readonly string[] | undefined, right: readonly string[] | undefined): boolean =>
+  JSON.stringify([...(left ?? [])].sort()) === JSON.stringify([...(right ?? [])].sort());
+
+const typesOf = (schema: JsonSchema): Set<string> | undefined => {
+  const type = schema.type;
+  const types = Array.isArray(type) ? (type as string[]) : typeof type === 'string' ? [type] : undefined;
+  if (!types) {
+    return undefined;
+  }
+  const result = new Set(types.map((entry) => (entry === 'integer' ? 'number' : entry)));
+  if (schema.nullable === true) {
+    result.add('null');
+  }
+  return result;
+};
+
+const requiredOf = (schema: JsonSchema): Set<string> => new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+
+const propertiesOf = (schema: JsonSchema): Record<string, JsonSchema> =>
+  isObject(schema.properties) ? (schema.properties as Record<string, JsonSchema>) : {};
+
+/**
+ * Structural comparison of two JSON Schemas. Inputs break when they accept less (new required
+ * properties, removed types or enum values); outputs break when they promise less (removed or
+ * no longer required properties, new types or enum values).
+ */
+const compareSchemas = (previous: JsonSchema, next: JsonSchema, role: SchemaRole, at: string, collect: Collector): void => {
+  const previousTypes = typesOf(previous);
+  const nextTypes = typesOf(next);
+  if (previousTypes && nextTypes) {
+    const removed = [...previousTypes].filter((type) => !nextTypes.has(type));
+    const added = [...nextTypes].filter((type) => !previousTypes.has(type));
+    if (role === 'input' && removed.length > 0) {
+      collect.breaking(`${at} no longer accepts ${removed.join(', ')}`);
+    } else if (role === 'output' && added.length > 0) {
+      collect.breaking(`${at} may now be ${added.join(', ')}`);
+    } else if (removed.length > 0 || added.length > 0) {
+      collect.changed(`${at} changed type`);
+    }
+  }
+
+  if (Array.isArray(previous.enum) && Array.isArray(next.enum)) {
+    const removed = previous.enum.filter((value) => !(next.enum as unknown[]).includes(value));
+    const added = next.enum.filter((value) => !(previous.enum as unknown[]).includes(value));
+    if (role === 'input' && removed.length > 0) {
+      collect.breaking(`${at} no longer accepts ${removed.map((value) => JSON.stringify(value)).join(', ')}`);
+    } else if (role === 'output' && added.length > 0) {
+      collect.breaking(`${at} may now be ${added.map((value) => JSON.stringify(value)).join(', ')}`);
+    } else if (removed.length > 0 || added.length > 0) {
+      collect.changed(`${at} changed allowed values`);
+    }
+  } else if (Array.isArray(next.enum) && !Array.isArray(previous.enum) && role === 'input') {
+    collect.breaking(`${at} is now restricted to ${next.enum.map((value) => JSON.stringify(value)).join(', ')}`);
+  }
+
+  const previousProperties = propertiesOf(previous);
+  const nextProperties = propertiesOf(next);
+  const previousRequired = requiredOf(previous);
+  const nextRequired = requiredOf(next);
+
+  for (const [key, schema] of Object.entries(nextProperties)) {
+    const location = `${at}.${key}`;
+    const before = previousProperties[key];
+    if (!before) {
+      if (role === 'input' && nextRequired.has(key)) {
+        collect.breaking(`${location} is now required`);
+      } else {
+        collect.added(`${location} was added`);
+      }
+      continue;
+    }
+    if (role === 'input' && nextRequired.has(key) && !previousRequired.has(key)) {
+      collect.breaking(`${location} is now required`);
+    }
+    if (role === 'output' && previousRequired.has(key) && !nextRequired.has(key)) {
+      collect.breaking(`${location} is no longer always present`);
+    }
+    compareSchemas(before, schema, role, location, collect);
+  }
+
+  for (const key of Object.keys(previousProperties)) {
+    if (key in nextProperties) {
+      continue;
+    }
+    const location = `${at}.${key}`;
+    if (role === 'output' && previousRequired.has(key)) {
+      collect.breaking(`${location} was removed`);
+    } else if (role === 'input' && next.additionalProperties === false) {
+      collect.breaking(`${location} is no longer accepted`);
+    } else {
+      collect.changed(`${location} was removed`);
+    }
+  }
+
+  if (isObject(previous.items) && isObject(next.items)) {
+    compareSchemas(previous.items as JsonSchema, next.items as JsonSchema, role, `${at}[]`, collect);
+  }
+};
+
+const hasRequiredInput = (schema: JsonSchema | undefined): boolean => !schema || requiredOf(schema).size > 0 || schema.type !== 'object';
+
+const bumpVersion = (version: string, bump: SemVerBump): string | undefined => {
+  const parsed = parseSemVer(version);
+  if (!parsed) {
+    return undefined;
+  }
+  // Before 1.0.0, breaking changes move the minor version and everything else the patch version.
+  const effective = parsed.major === 0 ? (bump === 'major' ? 'minor' : 'patch') : bump;
+  if (parsed.prerelease) {
+    return `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+  }
+  switch (effective) {
+    case 'major':
+      return `${parsed.major + 1}.0.0`;
+    case 'minor':
+      return `${parsed.major}.${parsed.minor + 1}.0`;
+    default:
+      return `${parsed.major}.${parsed.minor}.${parsed.patch + 1}`;
+  }
+};
+
+const byName = <T extends { readonly name: string }>(entries: readonly T[] | undefined): Map<string, T> =>
+  new Map((entries ?? []).map((entry) => [entry.name, entry]));
+
+/**
+ * Compares two versions of a module manifest and classifies every difference in its routes,
+ * views, events, and jobs as breaking or not. The result suggests the version bump the changes
+ * need, and `diagnostics` contains an error when `next.version` does not carry that bump, so a
+ * release step can fail on it.
+ */
+export function diffManifests(previous: ModuleManifest, next: ModuleManifest, options: DiffManifestsOptions = {}): ManifestDiff {
+  const changes: ManifestChange[] = [];
+
+  const collectorFor = (entry: ManifestEntryKind, name: string, prefix: string): Collector => ({
+    breaking: (message) => changes.push({ entry, name, breaking: true, bump: 'major', message: `${prefix} ${message}.` }),
+    added: (message) => changes.push({ entry, name, breaking: false, bump: 'minor', message: `${prefix} ${message}.` }),
+    changed: (message) => changes.push({ entry, name, breaking: false, bump: 'patch', message: `${prefix} ${message}.` })
+  });
+
+  const compareReference = (
+    before: SchemaReference | undefined,
+    after: SchemaReference | undefined,
+    role: SchemaRole,
+    label: string,
+    collect: Collector
+  ) => {
+    if (!before && !after) {
+      return;
+    }
+    const previousSchema = before ? options.resolveSchema?.(before, 'previous') : undefined;
+    const nextSchema = after ? options.resolveSchema?.(after, 'next') : undefined;
+    if (!before) {
+      // A new input schema only breaks consumers if it requires something; unresolved ones are assumed to.
+      if (role === 'input' && hasRequiredInput(nextSchema)) {
+        collect.breaking(`now requires ${label}`);
+      } else {
+        collect.added(`now declares ${label}`);
+      }
+      return;
+    }
+    if (!after) {
+      if (role === 'output') {
+        collect.breaking(`no longer declares ${label}`);
+      } else {
+        collect.changed(`no longer validates ${label}`);
+      }
+      return;
+    }
+    if (previousSchema && nextSchema) {
+      compareSchemas(previousSchema, nextSchema, role, label, collect);
+    } else if (before.name !== after.name || before.kind !== after.kind) {
+      collect.breaking(`${label} changed from "${before.name}" to "${after.name}" and could not be compared`);
+    }
+  };
+
+  const compareAuth = (before: AuthRequirement | undefined, after: AuthRequirement | undefined, collect: Collector) => {
+    const required = (auth: AuthRequirement | undefined) => Boolean(auth?.required || auth?.permissions?.length || auth?.roles?.length);
+    if (!required(before) && required(after)) {
+      collect.breaking('now requires authentication');
+    } else if (required(before) && !required(after)) {
+      collect.changed('no longer requires authentication');
+    }
+    const addedPermissions = (after?.permissions ?? []).filter((permission) => !(before?.permissions ?? []).includes(permission));
+    if (addedPermissions.length > 0) {
+      collect.breaking(`now requires permission ${addedPermissions.join(', ')}`);
+    }
+    // Roles are alternatives: dropping one only breaks consumers while others still restrict access.
+    const previousRoles = before?.roles ?? [];
+    const nextRoles = after?.roles ?? [];
+    const removedRoles = previousRoles.filter((role) => !nextRoles.includes(role));
+    if (previousRoles.length === 0 && nextRoles.length > 0) {
+      collect.breaking(`now requires role ${nextRoles.join(' or ')}`);
+    } else if (removedRoles.length > 0 && nextRoles.length > 0) {
+      collect.breaking(`no longer admits role ${removedRoles.join(', ')}`);
+    }
+  };
+
+  const compareDocs = (
+    before: { readonly summary?: string; readonly description?: string; readonly tags?: readonly string[] },
+    after: typeof before,
+    collect: Collector
+  ) => {
+    if (before.summary !== after.summary || before.description !== after.description || !sameList(before.tags, after.tags)) {
+      collect.changed('changed its documentation');
+    }
+  };
+
+  const responseStatuses = (route: RouteDefinition): Map<string, SchemaReference | undefined> => {
+    const output = route.output;
+    if (output?.responses) {
+      return new Map(Object.entries(output.responses).map(([status, response]) => [status, response.body]));
+    }
+    return output?.body ? new Map([[String(output.status ?? 200), output.body]]) : new Map();
+  };
+
+  const compareRoute = (before: RouteDefinition, after: RouteDefinition) => {
+    const collect = collectorFor('route', after.name, `Route "${after.name}"`);
+    if (before.method !== after.method) {
+      collect.breaking(`changed method from ${before.method} to ${after.method}`);
+    }
+    if (before.path !== after.path) {
+      if (patternShape(before.path) === patternShape(after.path)) {
+        collect.changed(`renamed path parameters (${before.path} -> ${after.path})`);
+      } else {
+        collect.breaking(`changed path from ${before.path} to ${after.path}`);
+      }
+    }
+    for (const source of ['params', 'query', 'body', 'headers'] as const) {
+      compareReference(before.input?.[source], after.input?.[source], 'input', source, collect);
+    }
+
+    const previousResponses = responseStatuses(before);
+    const nextResponses = responseStatuses(after);
+    for (const [status, body] of nextResponses) {
+      if (!previousResponses.has(status)) {
+        // Typed clients reject statuses their contract does not declare.
+        collect.breaking(`may now respond with status ${status}`);
+        continue;
+      }
+      compareReference(previousResponses.get(status), body, 'output', `response ${status}`, collect);
+    }
+    for (const status of previousResponses.keys()) {
+      if (!nextResponses.has(status)) {
+        collect.changed(`no longer responds with status ${status}`);
+      }
+    }
+
+    const previousCodes = new Set((before.errors ?? []).map((error) => error.code));
+    const nextCodes = new Set((after.errors ?? []).map((error) => error.code));
+    for (const code of previousCodes) {
+      if (!nextCodes.has(code)) {
+        collect.breaking(`no longer declares error code "${code}"`);
+      }
+    }
+    for (const code of nextCodes) {
+      if (!previousCodes.has(code)) {
+        collect.added(`now declares error code "${code}"`);
+      }
+    }
+
+    compareAuth(before.auth, after.auth, collect);
+    compareDocs(before, after, collect);
+  };
+
+  const compareView = (before: ViewDefinition, after: ViewDefinition) => {
+    const collect = collectorFor('view', after.name, `View "${after.name}"`);
+    if (before.path !== after.path) {
+      if (patternShape(before.path) === patternShape(after.path)) {
+        collect.changed(`renamed path parameters (${before.path} -> ${after.path})`);
+      } else {
+        collect.breaking(`changed path from ${before.path} to ${after.path}`);
+      }
+    }
+    compareReference(before.params, after.params, 'input', 'params', collect);
+    compareReference(before.data, after.data, 'output', 'data', collect);
+    compareAuth(before.auth, after.auth, collect);
+    if (before.renderMode !== after.renderMode || !sameList(before.staticPaths, after.staticPaths)) {
+      collect.changed('changed how it renders');
+    }
+    compareDocs(before, after, collect);
+  };
+
+  const compareEvent = (before: EventDefinition, after: EventDefinition) => {
+    const collect = collectorFor('event', after.name, `Event "${after.name}"`);
+    // Subscribers receive the payload, so it is compared like a response.
+    compareReference(before.payload, after.payload, 'output', 'payload', collect);
+    if (before.description !== after.description) {
+      collect.changed('changed its documentation');
+    }
+  };
+
+  const compareJob = (before: JobDefinition, after: JobDefinition) => {
+    const collect = collectorFor('job', after.name, `Job "${after.name}"`);
+    if (before.schedule !== after.schedule || before.priority !== after.priority) {
+      collect.changed('changed its schedule or priority');
+    }
+  };
+
+  const compareEntries = <T extends { readonly name: string }>(
+    entry: ManifestEntryKind,
+    label: string,
+    before: readonly T[] | undefined,
+    after: readonly T[] | undefined,
+    compare: (before: T, after: T) => void
+  ) => {
+    const previousEntries = byName(before);
+    const nextEntries = byName(after);
+    for (const [name, previousEntry] of previousEntries) {
+      const nextEntry = nextEntries.get(name);
+      if (nextEntry) {
+        compare(previousEntry, nextEntry);
+      } else {
+        changes.push({ entry, name, breaking: true, bump: 'major', message: `${label} "${name}" was removed.` });
+      }
+    }
+    for (const name of nextEntries.keys()) {
+      if (!previousEntries.has(name)) {
+        changes.push({ entry, name, breaking: false, bump: 'minor', message: `${label} "${name}" was added.` });
+      }
+    }
+  };
+
+  compareEntries('route', 'Route', previous.routes, next.routes, compareRoute);
+  compareEntries('view', 'View', previous.views, next.views, compareView);
+  compareEntries('event', 'Event', previous.events, next.events, compareEvent);
+  compareEntries('job', 'Job', previous.jobs, next.jobs, compareJob);
+
+  const breaking = changes.some((change) => change.breaking);
+  const bump = changes.reduce<SemVerBump | undefined>(
+    (highest, change) => (!highest || BUMP_ORDER.indexOf(change.bump) > BUMP_ORDER.indexOf(highest) ? change.bump : highest),
+    undefined
+  );
+  const suggestedVersion = bump ? bumpVersion(previous.version, bump) : undefined;
+
+  const file = options.file;
+  const diagnostics: ModuleDiagnostic[] = [];
+  if (previous.name !== next.name) {
+    diagnostics.push({ severity: 'warn', message: `Comparing manifests of different modules ("${previous.name}" and "${next.name}").`, file });
+  }
+  for (const change of changes) {
+    diagnostics.push({ severity: change.breaking ? 'warn' : 'info', message: change.message, file });
+  }
+
+  const required = suggestedVersion ? parseSemVer(suggestedVersion) : undefined;
+  const declared = parseSemVer(next.version);
+  if (required && !declared) {
+    diagnostics.push({ severity: 'error', message: `Version "${next.version}" is not a valid semantic version.`, file });
+  } else if (required && declared && compareSemVer(declared, required) < 0) {
+    diagnostics.push({
+      severity: 'error',
+      message: breaking
+        ? `Module "${next.name}" has breaking changes; version ${next.version} must be at least ${suggestedVersion}.`
+        : `Module "${next.name}" changed; version ${next.version} must be at least ${suggestedVersion}.`,
+      file
+    });
+  }
+
+  return { changes, breaking, bump, suggestedVersion, diagnostics };
+}
@@ -0,0 +1,28 @@
+import type { z } from 'zod';
+
+import type { SchemaReference } from '../index.js';
+
+const sanitizeSchemaBase = (raw: string): string => raw.replace(/[^A-Za-z0-9]+/g, '_');
+
+const capitalize = (value: string): string =>
+  value.length === 0 ? value : value[0].toUpperCase() + value.slice(1);
+
+/**
+ * Builds `zod` schema references named `<base><Key>` (e.g. `getAccountParams`) for every
+ * schema that is present.
+ */
+export function inferSchemaReferences<TKey extends string>(
+  baseName: string,
+  schemas: Partial<Record<TKey, z.ZodTypeAny | undefined>>
+): Partial<Record<TKey, SchemaReference>> {
+  const names: Partial<Record<TKey, SchemaReference>> = {};
+  const safeBase = sanitizeSchemaBase(baseName);
+
+  for (const key of Object.keys(schemas) as TKey[]) {
+    if (schemas[key]) {
+      names[key] = { kind: 'zod', name: `${safeBase}${capitalize(key)}` };
+    }
+  }
+
+  return names;
+}
@@ -0,0 +1,202 @@
+export interface SemVer {
+  readonly major: number;
+  readonly minor: number;
+  readonly patch: number;
+  readonly prerelease?: string;
+}
+
+const SEMVER_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function parseSemVer(value: string): SemVer | undefined {
+  const match = SEMVER_PATTERN.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]
+  };
+}
+
+const NUMERIC_IDENTIFIER = /^\d+$/;
+
+// Dot-separated identifiers compare in turn: numeric ones numerically and below alphanumeric ones,
+// and a shorter list of otherwise equal identifiers sorts first (`rc.2` < `rc.10` < `rc.10.1`).
+const comparePrerelease = (left: string, right: string): number => {
+  const leftParts = left.split('.');
+  const rightParts = right.split('.');
+  for (let index = 0; index < Math.min(leftParts.length, rightParts.length); index += 1) {
+    const a = leftParts[index];
+    const b = rightParts[index];
+    if (a === b) {
+      continue;
+    }
+    const aNumeric = NUMERIC_IDENTIFIER.test(a);
+    const bNumeric = NUMERIC_IDENTIFIER.test(b);
+    if (aNumeric && bNumeric) {
+      if (Number(a) !== Number(b)) {
+        return Number(a) - Number(b);
+      }
+      continue;
+    }
+    if (aNumeric !== bNumeric) {
+      return aNumeric ? -1 : 1;
+    }
+    return a < b ? -1 : 1;
+  }
+  return leftParts.length - rightParts.length;
+};
+
+export function compareSemVer(left: SemVer, right: SemVer): number {
+  if (left.major !== right.major) {
+    return left.major - right.major;
+  }
+  if (left.minor !== right.minor) {
+    return left.minor - right.minor;
+  }
+  if (left.patch !== right.patch) {
+    return left.patch - right.patch;
+  }
+  if (left.prerelease === right.prerelease) {
+    return 0;
+  }
+  // A prerelease sorts before the release it precedes.
+  if (left.prerelease === undefined) {
+    return 1;
+  }
+  if (right.prerelease === undefined) {
+    return -1;
+  }
+  return comparePrerelease(left.prerelease, right.prerelease);
+}
+
+type Comparator = (version: SemVer) => boolean;
+
+const compareTo = (operator: string, target: SemVer): Comparator => (version) => {
+  const order = compareSemVer(version, target);
+  switch (operator) {
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    default:
+      return order === 0;
+  }
+};
+
+const WILDCARD = /^[xX*]$/;
+
+// Expands partial versions (`1`, `1.2`, `1.x`) into the bounds they stand for.
+const parsePartial = (raw: string): { major?: number; minor?: number; patch?: number } | undefined => {
+  const [major, minor, patch, ...rest] = raw.replace(/^v/, '').split('-')[0].split('.');
+  if (rest.length > 0) {
+    return undefined;
+  }
+  const read = (value: string | undefined) => (value === undefined || WILDCARD.test(value) ? undefined : Number(value));
+  const parts = { major: read(major), minor: read(minor), patch: read(patch) };
+  return Object.values(parts).some((value) => value !== undefined && Number.isNaN(value)) ? undefined : parts;
+};
+
+const rangeFromPartial = (raw: string, operator: string): Comparator[] | undefined => {
+  const exact = parseSemVer(raw);
+  if (exact) {
+    if (operator === '^') {
+      const upper =
+        exact.major > 0
+          ? { major: exact.major + 1, minor: 0, patch: 0 }
+          : exact.minor > 0
+            ? { major: 0, minor: exact.minor + 1, patch: 0 }
+            : { major: 0, minor: 0, patch: exact.patch + 1 };
+      return [compareTo('>=', exact), compareTo('<', upper)];
+    }
+    if (operator === '~') {
+      return [compareTo('>=', exact), compareTo('<', { major: exact.major, minor: exact.minor + 1, patch: 0 })];
+    }
+    return [compareTo(operator, exact)];
+  }
+
+  const partial = parsePartial(raw);
+  if (!partial) {
+    return undefined;
+  }
+  const { major, minor } = partial;
+  if (major === undefined) {
+    return [() => true];
+  }
+  const lower: SemVer = { major, minor: minor ?? 0, patch: 0 };
+  const upper: SemVer = minor === undefined ? { major: major + 1, minor: 0, patch: 0 } : { major, minor: minor + 1, patch: 0 };
+  switch (operator) {
+    case '^': {
+      // Like the exact form, a caret bumps the first non-zero component: `^1.2` is `<2.0.0`, `^0.2` is `<0.3.0`.
+      const caretUpper: SemVer = major > 0 || minor === undefined ? { major: major + 1, minor: 0, patch: 0 } : { major: 0, minor: minor + 1, patch: 0 };
+      return [compareTo('>=', lower), compareTo('<', caretUpper)];
+    }
+    case '>':
+      return [compareTo('>=', upper)];
+    case '>=':
+      return [compareTo('>=', lower)];
+    case '<':
+      return [compareTo('<', lower)];
+    case '<=':
+      return [compareTo('<', upper)];
+    default:
+      return [compareTo('>=', lower), compareTo('<', upper)];
+  }
+};
+
+const parseComparatorSet = (set: string): Comparator[] | undefined => {
+  const hyphen = /^\s*(\S+)\s+-\s+(\S+)\s*$/.exec(set);
+  if (hyphen) {
+    const lower = rangeFromPartial(hyphen[1], '>=');
+    const upper = rangeFromPartial(hyphen[2], '<=');
+    return lower && upper ? [...lower, ...upper] : undefined;
+  }
+
+  // `>= 1.2.0` is valid npm syntax: an operator standing alone belongs to the version after it.
+  const tokens: string[] = [];
+  for (const token of set.trim().split(/\s+/).filter(Boolean)) {
+    const previous = tokens[tokens.length - 1];
+    if (previous !== undefined && /^(\^|~|>=|<=|>|<|=)$/.test(previous)) {
+      tokens[tokens.length - 1] = `${previous}${token}`;
+    } else {
+      tokens.push(token);
+    }
+  }
+
+  const comparators: Comparator[] = [];
+  for (const token of tokens) {
+    const match = /^(\^|~|>=|<=|>|<|=)?(.+)$/.exec(token);
+    const parsed = match ? rangeFromPartial(match[2], match[1] ?? '=') : undefined;
+    if (!parsed) {
+      return undefined;
+    }
+    comparators.push(...parsed);
+  }
+  return comparators.length > 0 ? comparators : [() => true];
+};
+
+/** Whether `range` is valid npm-style semver range syntax. */
+export function isValidSemVerRange(range: string): boolean {
+  return range.split('||').every((set) => parseComparatorSet(set) !== undefined);
+}
+
+/**
+ * npm-style range matching: exact versions, comparators (`>=1.2.0 <2.0.0`), caret/tilde,
+ * x-ranges (`1.x`, `*`), hyphen ranges (`1.0.0 - 1.4.0`), and `||` alternatives.
+ */
+export function satisfiesSemVer(version: string, range: string): boolean {
+  const parsed = parseSemVer(version);
+  if (!parsed) {
+    return false;
+  }
+  return range.split('||').some((set) => {
+    const comparators = parseComparatorSet(set);
+    return comparators !== undefined && comparators.every((comparator) => comparator(parsed));
+  });
+}
@@ -0,0 +1,34 @@
+import type { ModuleDiagnostic, ModuleManifest } from '../index.js';
+
+/**
+ * Cross-module check for orchestrators: every `manifest.subscriptions` entry must name an
+ * event that some module declares in `manifest.events` (the module named by `source`, if set).
+ */
+export function checkEventSubscriptions(manifests: readonly ModuleManifest[]): ModuleDiagnostic[] {
+  const publishers = new Map<string, string[]>();
+  for (const manifest of manifests) {
+    for (const event of manifest.events ?? []) {
+      publishers.set(event.name, [...(publishers.get(event.name) ?? []), manifest.name]);
+    }
+  }
+
+  const diagnostics: ModuleDiagnostic[] = [];
+  for (const manifest of manifests) {
+    for (const subscription of manifest.subscriptions ?? []) {
+      const modules = publishers.get(subscription.event) ?? [];
+      if (modules.length === 0) {
+        diagnostics.push({
+          severity: 'error',
+          message: `Module "${manifest.name}" subscribes to event "${subscription.event}" but no module publishes it.`
+        });
+      } else if (subscription.source && !modules.includes(subscription.source)) {
+        diagnostics.push({
+          severity: 'error',
+          message: `Module "${manifest.name}" subscribes to event "${subscription.event}" from "${subscription.source}", but it is only published by ${modules.map((name) => `"${name}"`).join(', ')}.`
+        });
+      }
+    }
+  }
+
+  return diagnostics;
+}
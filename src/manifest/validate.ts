@@ -0,0 +1,200 @@
+import {
+  CONTRACT_VERSION,
+  moduleManifestSchema,
+  type EnvVariableDefinition,
+  type EventDefinition,
+  type JobDefinition,
+  type ModuleDefinition,
+  type ModuleDiagnostic,
+  type RouteDefinition,
+  type ViewDefinition
+} from '../index.js';
+import { describeModuleEnv, loadModuleEnv, type EnvSource } from '../runtime/env.js';
+import { parsePathPattern } from '../runtime/paths.js';
+import { compareSemVer, parseSemVer } from './semver.js';
+
+export interface ValidateModuleOptions {
+  /** Attached to every diagnostic so hosts can point at the module source. */
+  readonly file?: string;
+  /** Variables to check against the module's `env` schema, e.g. `ModuleBuildOptions.env`. */
+  readonly env?: EnvSource;
+}
+
+const countBy = <T>(items: readonly T[], key: (item: T) => string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const value = key(item);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return counts;
+};
+
+const duplicates = <T>(items: readonly T[], key: (item: T) => string): string[] =>
+  [...countBy(items, key).entries()].filter(([, count]) => count > 1).map(([value]) => value);
+
+// Patterns that only differ in parameter names (`/a/:id` vs `/a/:slug`) match exactly the same URLs.
+const patternShape = (path: string): string =>
+  parsePathPattern(path)
+    .segments.map((segment) => (segment.kind === 'param' ? ':' : segment.value))
+    .join('/');
+
+const checkContractVersion = (version: string): ModuleDiagnostic | undefined => {
+  const current = parseSemVer(CONTRACT_VERSION);
+  const declared = parseSemVer(version);
+  if (!current) {
+    return undefined;
+  }
+  if (!declared) {
+    return { severity: 'error', message: `contractVersion "${version}" is not a valid semantic version.` };
+  }
+  if (declared.major !== current.major) {
+    return {
+      severity: 'error',
+      message: `contractVersion ${version} is incompatible with contract ${CONTRACT_VERSION} (major version differs).`
+    };
+  }
+  if (compareSemVer(declared, current) > 0) {
+    return {
+      severity: 'warn',
+      message: `contractVersion ${version} is newer than the supported contract ${CONTRACT_VERSION}; newer fields may be ignored.`
+    };
+  }
+  return undefined;
+};
+
+const checkPathConflicts = (
+  label: string,
+  entries: readonly { readonly name: string; readonly path: string; readonly method?: string }[]
+): ModuleDiagnostic[] => {
+  const groups = new Map<string, Map<string, string>>();
+  for (const entry of entries) {
+    const key = `${entry.method ?? ''} ${patternShape(entry.path)}`;
+    const paths = groups.get(key) ?? new Map<string, string>();
+    if (!paths.has(entry.path)) {
+      paths.set(entry.path, entry.name);
+    }
+    groups.set(key, paths);
+  }
+
+  const diagnostics: ModuleDiagnostic[] = [];
+  for (const paths of groups.values()) {
+    if (paths.size < 2) {
+      continue;
+    }
+    const described = [...paths.entries()].map(([path, name]) => `"${name}" (${path})`).join(', ');
+    diagnostics.push({ severity: 'error', message: `${label} path patterns conflict: ${described} match the same URLs.` });
+  }
+  return diagnostics;
+};
+
+const compareEntries = <TSpec extends { readonly name: string }>(
+  label: string,
+  manifestEntries: readonly TSpec[],
+  specEntries: readonly TSpec[],
+  compare: (manifestEntry: TSpec, specEntry: TSpec) => string[]
+): ModuleDiagnostic[] => {
+  const diagnostics: ModuleDiagnostic[] = [];
+  const manifestByName = new Map(manifestEntries.map((entry) => [entry.name, entry]));
+  const specByName = new Map(specEntries.map((entry) => [entry.name, entry]));
+
+  for (const [name, specEntry] of specByName) {
+    const manifestEntry = manifestByName.get(name);
+    if (!manifestEntry) {
+      diagnostics.push({ severity: 'error', message: `${label} "${name}" has a spec but no manifest entry.` });
+      continue;
+    }
+    for (const field of compare(manifestEntry, specEntry)) {
+      diagnostics.push({ severity: 'error', message: `${label} "${name}" ${field} differs between the manifest and its spec.` });
+    }
+  }
+
+  for (const name of manifestByName.keys()) {
+    if (!specByName.has(name)) {
+      diagnostics.push({ severity: 'error', message: `${label} "${name}" is declared in the manifest but has no spec.` });
+    }
+  }
+
+  return diagnostics;
+};
+
+/**
+ * Checks that a module's manifest and its route/view/job/event specs agree. The result can be
+ * passed straight into `ModuleBuildManifest.diagnostics`.
+ */
+export function validateModule(
+  module: ModuleDefinition<any, any, any, any, any>,
+  options: ValidateModuleOptions = {}
+): ModuleDiagnostic[] {
+  const diagnostics: ModuleDiagnostic[] = [];
+
+  const parsed = moduleManifestSchema.safeParse(module.manifest);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const path = issue.path.length > 0 ? `manifest.${issue.path.join('.')}` : 'manifest';
+      diagnostics.push({ severity: 'error', message: `${path}: ${issue.message}` });
+    }
+  }
+
+  const manifest = module.manifest;
+  const versionDiagnostic = typeof manifest.contractVersion === 'string' ? checkContractVersion(manifest.contractVersion) : undefined;
+  if (versionDiagnostic) {
+    diagnostics.push(versionDiagnostic);
+  }
+
+  const manifestRoutes: readonly RouteDefinition[] = manifest.routes ?? [];
+  const specRoutes: readonly RouteDefinition[] = (module.routes ?? []).map((route: { definition: RouteDefinition }) => route.definition);
+  const manifestViews: readonly ViewDefinition[] = manifest.views ?? [];
+  const specViews: readonly ViewDefinition[] = (module.views ?? []).map((view: { definition: ViewDefinition }) => view.definition);
+  const manifestJobs: readonly JobDefinition[] = manifest.jobs ?? [];
+  const specJobs: readonly JobDefinition[] = (module.jobs ?? []).map((job) => job.definition);
+  const manifestEvents: readonly EventDefinition[] = manifest.events ?? [];
+  const specEvents: readonly EventDefinition[] = (module.events ?? []).map((event) => event.definition);
+  const manifestEnv: readonly EnvVariableDefinition[] = manifest.env ?? [];
+  const specEnv: readonly EnvVariableDefinition[] = module.env ? describeModuleEnv(module.env) : [];
+
+  for (const [label, entries] of [
+    ['manifest.routes', manifestRoutes],
+    ['routes', specRoutes]
+  ] as const) {
+    for (const name of duplicates(entries, (route) => route.name)) {
+      diagnostics.push({ severity: 'error', message: `Route name "${name}" is declared more than once in ${label}.` });
+    }
+    for (const key of duplicates(entries, (route) => `${route.method} ${route.path}`)) {
+      diagnostics.push({ severity: 'error', message: `${key} is declared by more than one route in ${label}.` });
+    }
+  }
+
+  const named: readonly (readonly [string, string, readonly { readonly name: string }[]])[] = [
+    ['View', 'manifest.views', manifestViews],
+    ['View', 'views', specViews],
+    ['Job', 'manifest.jobs', manifestJobs],
+    ['Job', 'jobs', specJobs],
+    ['Event', 'manifest.events', manifestEvents],
+    ['Event', 'events', specEvents]
+  ];
+  for (const [kind, label, entries] of named) {
+    for (const name of duplicates(entries, (entry) => entry.name)) {
+      diagnostics.push({ severity: 'error', message: `${kind} name "${name}" is declared more than once in ${label}.` });
+    }
+  }
+
+  diagnostics.push(
+    ...compareEntries('Route', manifestRoutes, specRoutes, (left, right) =>
+      (['method', 'path'] as const).filter((field) => left[field] !== right[field])
+    ),
+    ...compareEntries('View', manifestViews, specViews, (left, right) => (left.path !== right.path ? ['path'] : [])),
+    ...compareEntries('Job', manifestJobs, specJobs, (left, right) => (left.schedule !== right.schedule ? ['schedule'] : [])),
+    ...compareEntries('Event', manifestEvents, specEvents, () => []),
+    ...compareEntries('Environment variable', manifestEnv, specEnv, (left, right) =>
+      (['required', 'secret'] as const).filter((field) => Boolean(left[field]) !== Boolean(right[field]))
+    ),
+    ...checkPathConflicts('Route', specRoutes),
+    ...checkPathConflicts('View', specViews)
+  );
+
+  if (options.env) {
+    diagnostics.push(...loadModuleEnv(module, options.env).diagnostics);
+  }
+
+  return options.file ? diagnostics.map((diagnostic) => ({ ...diagnostic, file: options.file })) : diagnostics;
+}
@@ -0,0 +1,317 @@
+import { z } from 'zod';
+
+import { CONTRACT_VERSION, moduleManifestSchema, type ModuleCompatibility, type ModuleManifest } from '../index.js';
+import { compareSemVer, isValidSemVerRange, parseSemVer, satisfiesSemVer } from './semver.js';
+
+type RawManifest = Record<string, unknown>;
+
+export interface ManifestVersion {
+  readonly version: string;
+  /** Validates a manifest written for this contract version, before any migration runs. */
+  readonly schema: z.ZodTypeAny;
+}
+
+export interface ManifestMigration {
+  readonly from: string;
+  readonly to: string;
+  readonly description?: string;
+  readonly migrate: (manifest: RawManifest) => RawManifest;
+}
+
+export interface ManifestRegistry {
+  readonly current: string;
+  readonly versions: readonly ManifestVersion[];
+  readonly migrations: readonly ManifestMigration[];
+}
+
+export type MigrateManifestResult =
+  | {
+      readonly ok: true;
+      readonly manifest: ModuleManifest;
+      readonly from: string;
+      readonly to: string;
+      /** `from -> to` for every migration that ran, in order. */
+      readonly applied: readonly string[];
+      readonly warnings: readonly string[];
+    }
+  | { readonly ok: false; readonly reason: string };
+
+export interface CompatibilityMatrixEntry {
+  /** Semver range of contract versions this entry covers. */
+  readonly contract: string;
+  /** Semver range of CLI versions able to load manifests in `contract`. */
+  readonly cli: string;
+}
+
+export interface CompatibilityCheckInput {
+  readonly compatibility: ModuleCompatibility;
+  readonly cliVersion: string;
+  readonly contractVersion?: string;
+  readonly nodeVersion?: string;
+  readonly matrix?: readonly CompatibilityMatrixEntry[];
+}
+
+export interface CompatibilityCheckResult {
+  readonly compatible: boolean;
+  readonly reasons: readonly string[];
+}
+
+// The 1.0.0 manifest exactly as that contract shipped it. It is a standalone copy rather than
+// derived from `moduleManifestSchema`, so later changes to the current schema cannot alter how
+// 1.0.0 manifests are read.
+const legacyManifestSchema = () => {
+  const schemaReference = z.object({
+    kind: z.enum(['zod', 'json-schema', 'ts-rest']).default('zod'),
+    name: z.string(),
+    source: z.string().optional()
+  });
+  const moduleError = z.object({
+    code: z.enum(['validation', 'auth', 'not_found', 'domain', 'conflict', 'internal']),
+    message: z.string(),
+    details: z.unknown().optional(),
+    cause: z.unknown().optional(),
+    correlationId: z.string().optional()
+  });
+  const renderFields = {
+    renderMode: z.enum(['ssg', 'ssr', 'spa']).optional(),
+    staticPaths: z.array(z.string().min(1)).optional(),
+    ssg: z
+      .object({
+        revalidateSeconds: z.number().int().positive().optional()
+      })
+      .optional()
+  };
+  const route = z.object({
+    name: z.string().min(1),
+    method: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']),
+    path: z.string().min(1),
+    summary: z.string().optional(),
+    description: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    input: z
+      .object({
+        params: schemaReference.optional(),
+        query: schemaReference.optional(),
+        body: schemaReference.optional(),
+        headers: schemaReference.optional()
+      })
+      .partial()
+      .strict()
+      .optional(),
+    output: z
+      .object({
+        body: schemaReference,
+        status: z.number().int().min(100).max(599).optional(),
+        headers: schemaReference.optional()
+      })
+      .optional(),
+    errors: z.array(moduleError).optional(),
+    ...renderFields
+  });
+  const view = z.object({
+    name: z.string().min(1),
+    path: z.string().min(1),
+    summary: z.string().optional(),
+    description: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    params: schemaReference.optional(),
+    data: schemaReference.optional(),
+    ...renderFields
+  });
+
+  return z.object({
+    contractVersion: z.string().min(1),
+    name: z.string().min(1),
+    version: z.string().min(1),
+    kind: z.enum(['frontend', 'backend']),
+    capabilities: z.array(z.string()).optional(),
+    assets: z.array(z.string()).optional(),
+    middlewares: z.array(z.string()).optional(),
+    routes: z.array(route).optional(),
+    views: z.array(view).optional(),
+    jobs: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          schedule: z.string().optional(),
+          priority: z.union([z.number().int(), z.string()]).optional()
+        })
+      )
+      .optional(),
+    events: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          payload: schemaReference.optional(),
+          description: z.string().optional()
+        })
+      )
+      .optional(),
+    services: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          description: z.string().optional()
+        })
+      )
+      .optional(),
+    init: z.string().optional(),
+    dispose: z.string().optional()
+  });
+};
+
+let defaultRegistry: ManifestRegistry | undefined;
+
+/**
+ * Contract versions this package understands and the steps between them. Built on first
+ * use because the manifest schemas are not initialized while index.ts is still loading.
+ */
+export function getManifestRegistry(): ManifestRegistry {
+  defaultRegistry ??= {
+    current: CONTRACT_VERSION,
+    versions: [
+      { version: '1.0.0', schema: legacyManifestSchema() },
+      { version: '1.1.0', schema: moduleManifestSchema }
+    ],
+    migrations: [
+      {
+        from: '1.0.0',
+        to: '1.1.0',
+        description: 'Convert `middlewares` name strings into middleware definitions.',
+        migrate: (manifest) => {
+          const middlewares = manifest.middlewares;
+          return Array.isArray(middlewares)
+            ? { ...manifest, middlewares: middlewares.map((entry) => (typeof entry === 'string' ? { name: entry } : entry)) }
+            : manifest;
+        }
+      }
+    ]
+  };
+  return defaultRegistry;
+}
+
+/** Contract versions supported by each CLI range. Hosts pass their own matrix to tighten it. */
+export const CONTRACT_COMPATIBILITY_MATRIX: readonly CompatibilityMatrixEntry[] = [{ contract: '^1.0.0', cli: '*' }];
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : 'manifest'}: ${issue.message}`).join('; ');
+
+/**
+ * Upgrades a raw manifest to the registry's current contract version, one registered
+ * migration at a time. Future or unknown major versions are rejected with a reason.
+ */
+export function migrateManifest(raw: unknown, registry: ManifestRegistry = getManifestRegistry()): MigrateManifestResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, reason: 'Manifest must be an object.' };
+  }
+
+  const declared = (raw as RawManifest).contractVersion;
+  if (typeof declared !== 'string') {
+    return { ok: false, reason: 'Manifest is missing a contractVersion.' };
+  }
+
+  const version = parseSemVer(declared);
+  const current = parseSemVer(registry.current);
+  if (!version) {
+    return { ok: false, reason: `contractVersion "${declared}" is not a valid semantic version.` };
+  }
+  if (!current) {
+    return { ok: false, reason: `Registry version "${registry.current}" is not a valid semantic version.` };
+  }
+  if (version.major > current.major) {
+    return {
+      ok: false,
+      reason: `contractVersion ${declared} is from a newer major contract than ${registry.current}; upgrade @webstir-io/module-contract to read it.`
+    };
+  }
+
+  const warnings: string[] = [];
+  // A newer minor/patch of the current major is read with the current schema.
+  const sameMajor = registry.versions
+    .map((entry) => ({ entry, parsed: parseSemVer(entry.version) }))
+    .filter((candidate): candidate is { entry: ManifestVersion; parsed: NonNullable<typeof candidate.parsed> } =>
+      candidate.parsed !== undefined && candidate.parsed.major === version.major && compareSemVer(candidate.parsed, version) <= 0
+    )
+    .sort((left, right) => compareSemVer(right.parsed, left.parsed));
+  const start = sameMajor[0]?.entry;
+  if (!start) {
+    return { ok: false, reason: `contractVersion ${declared} is unknown; no schema is registered for major version ${version.major}.` };
+  }
+  if (compareSemVer(version, current) > 0) {
+    warnings.push(`contractVersion ${declared} is newer than ${registry.current}; unknown fields are dropped.`);
+  }
+
+  const initial = start.schema.safeParse(raw);
+  if (!initial.success) {
+    return { ok: false, reason: `Manifest does not match contract ${start.version}: ${describeIssues(initial.error)}` };
+  }
+
+  let manifest = initial.data as RawManifest;
+  let at = start.version;
+  const applied: string[] = [];
+  const target = parseSemVer(registry.current)!;
+  while (compareSemVer(parseSemVer(at)!, target) < 0) {
+    const step = registry.migrations.find((migration) => migration.from === at);
+    if (!step) {
+      return { ok: false, reason: `No migration is registered from contract ${at} towards ${registry.current}.` };
+    }
+    manifest = step.migrate(manifest);
+    applied.push(`${step.from} -> ${step.to}`);
+    at = step.to;
+  }
+
+  const currentSchema = registry.versions.find((entry) => entry.version === registry.current)?.schema ?? moduleManifestSchema;
+  const final = currentSchema.safeParse({ ...manifest, contractVersion: registry.current });
+  if (!final.success) {
+    return { ok: false, reason: `Migrated manifest does not match contract ${registry.current}: ${describeIssues(final.error)}` };
+  }
+
+  return { ok: true, manifest: final.data as ModuleManifest, from: declared, to: registry.current, applied, warnings };
+}
+
+// minCliVersion/maxCliVersion may be plain versions (inclusive bounds) or ranges.
+const checkBound = (cliVersion: string, bound: string, operator: '>=' | '<='): boolean =>
+  parseSemVer(bound) ? satisfiesSemVer(cliVersion, `${operator}${bound}`) : satisfiesSemVer(cliVersion, bound);
+
+/**
+ * Checks a provider's `ModuleCompatibility` against the running CLI (and Node) version and
+ * the contract/CLI compatibility matrix.
+ */
+export function checkCompatibility(input: CompatibilityCheckInput): CompatibilityCheckResult {
+  const { compatibility, cliVersion } = input;
+  const reasons: string[] = [];
+
+  if (!parseSemVer(cliVersion)) {
+    reasons.push(`CLI version "${cliVersion}" is not a valid semantic version.`);
+    return { compatible: false, reasons };
+  }
+
+  for (const [bound, operator, label] of [
+    [compatibility.minCliVersion, '>=', 'minCliVersion'],
+    [compatibility.maxCliVersion, '<=', 'maxCliVersion']
+  ] as const) {
+    if (bound === undefined) {
+      continue;
+    }
+    if (!parseSemVer(bound) && !isValidSemVerRange(bound)) {
+      reasons.push(`${label} "${bound}" is neither a version nor a semver range.`);
+    } else if (!checkBound(cliVersion, bound, operator)) {
+      reasons.push(`CLI ${cliVersion} does not satisfy ${label} ${bound}.`);
+    }
+  }
+
+  if (input.nodeVersion && !satisfiesSemVer(input.nodeVersion.replace(/^v/, ''), compatibility.nodeRange)) {
+    reasons.push(`Node ${input.nodeVersion} does not satisfy nodeRange ${compatibility.nodeRange}.`);
+  }
+
+  const contractVersion = input.contractVersion ?? CONTRACT_VERSION;
+  const matrix = input.matrix ?? CONTRACT_COMPATIBILITY_MATRIX;
+  const entries = matrix.filter((entry) => satisfiesSemVer(contractVersion, entry.contract));
+  if (entries.length === 0) {
+    reasons.push(`Contract ${contractVersion} is not listed in the compatibility matrix.`);
+  } else if (!entries.some((entry) => satisfiesSemVer(cliVersion, entry.cli))) {
+    reasons.push(`Contract ${contractVersion} requires CLI ${entries.map((entry) => entry.cli).join(' || ')}, found ${cliVersion}.`);
+  }
+
+  return { compatible: reasons.length === 0, reasons };
+}
@@ -0,0 +1,116 @@
+import type {
+  AuthProvider,
+  AuthRequirement,
+  AuthSession,
+  CsrfCheckRequest,
+  HttpMethod,
+  ModuleError,
+  RequestContext,
+  SSRContext
+} from '../index.js';
+
+export interface AccessCheckOptions {
+  /** Roles held by a session. Defaults to `session.data.roles` when it is a string array. */
+  readonly getRoles?: (session: AuthSession) => readonly string[];
+}
+
+export type AccessCheckResult =
+  | { readonly allowed: true; readonly session: AuthSession | null }
+  | { readonly allowed: false; readonly status: 401 | 403 | 500; readonly error: ModuleError };
+
+export type CsrfCheckResult = { readonly allowed: true } | { readonly allowed: false; readonly status: 403; readonly error: ModuleError };
+
+const SAFE_METHODS: ReadonlySet<HttpMethod> = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/** `GET`, `HEAD`, and `OPTIONS` must not change state, so they carry no CSRF token. */
+export const isSafeMethod = (method: HttpMethod): boolean => SAFE_METHODS.has(method);
+
+const defaultRoles = (session: AuthSession): readonly string[] => {
+  const roles = (session.data as { roles?: unknown }).roles;
+  return Array.isArray(roles) ? roles.filter((role): role is string => typeof role === 'string') : [];
+};
+
+const deny = (
+  status: 401 | 403 | 500,
+  message: string,
+  context: RequestContext | SSRContext,
+  details?: Record<string, unknown>
+): AccessCheckResult => ({
+  allowed: false,
+  status,
+  error: {
+    code: status === 500 ? 'internal' : 'auth',
+    message,
+    details,
+    correlationId: context.requestId
+  }
+});
+
+/**
+ * Enforces a route or view `auth` requirement: resolves the session through `getSession`,
+ * then checks roles and `verifyPermissions`. Fails closed when the provider cannot decide.
+ */
+export async function checkAccess(
+  requirement: AuthRequirement | undefined,
+  provider: AuthProvider | undefined,
+  context: RequestContext | SSRContext,
+  options: AccessCheckOptions = {}
+): Promise<AccessCheckResult> {
+  const permissions = requirement?.permissions ?? [];
+  const roles = requirement?.roles ?? [];
+  const required = requirement?.required === true || permissions.length > 0 || roles.length > 0;
+
+  if (!required) {
+    return { allowed: true, session: (context.session as AuthSession | null) ?? null };
+  }
+  if (!provider) {
+    return deny(500, 'Route requires authentication but no AuthProvider is configured', context);
+  }
+
+  const session = await provider.getSession(context);
+  if (!session) {
+    return deny(401, 'Authentication required', context);
+  }
+
+  if (roles.length > 0) {
+    const held = (options.getRoles ?? defaultRoles)(session);
+    if (!roles.some((role) => held.includes(role))) {
+      return deny(403, `Requires one of the roles: ${roles.join(', ')}`, context, { roles });
+    }
+  }
+
+  if (permissions.length > 0) {
+    if (!provider.verifyPermissions) {
+      return deny(403, 'AuthProvider cannot verify permissions', context, { permissions });
+    }
+    const verdict = await provider.verifyPermissions(context, permissions);
+    if (!verdict.allowed) {
+      return deny(403, verdict.reason ?? 'Missing required permissions', context, { permissions });
+    }
+  }
+
+  return { allowed: true, session };
+}
+
+/**
+ * Checks the CSRF token of an unsafe request through `AuthProvider.verifyCsrfToken`. Safe
+ * methods and providers without the hook always pass.
+ */
+export async function checkCsrf(
+  provider: AuthProvider | undefined,
+  context: RequestContext | SSRContext,
+  request: CsrfCheckRequest
+): Promise<CsrfCheckResult> {
+  if (isSafeMethod(request.method) || !provider?.verifyCsrfToken) {
+    return { allowed: true };
+  }
+  const verdict = await provider.verifyCsrfToken(context, request);
+  if (verdict.allowed) {
+    return verdict;
+  }
+  return {
+    allowed: false,
+    status: 403,
+    error: { code: 'auth', message: verdict.reason ?? 'Invalid CSRF token', correlationId: context.requestId }
+  };
+}
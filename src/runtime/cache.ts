@@ -0,0 +1,335 @@
+import type { AuthProvider, CacheProvider, RequestContext, RouteCachePolicy, RouteDefinition } from '../index.js';
+import { checkAccess, type AccessCheckOptions } from './auth.js';
+import {
+  normalizeHeaders,
+  normalizeQuery,
+  stripQueryString,
+  type DispatchRequest,
+  type DispatchResult,
+  type RequestDispatcher
+} from './dispatcher.js';
+
+/** A key inside a module's namespace: `<namespace>:<key>`. */
+export type ModuleCacheKey<TNamespace extends string = string, TKey extends string = string> = `${TNamespace}:${TKey}`;
+
+export type RouteCacheKey<TNamespace extends string = string, TRoute extends string = string> = ModuleCacheKey<
+  TNamespace,
+  `route:${TRoute}:${string}`
+>;
+
+export type CacheTagKey<TNamespace extends string = string> = ModuleCacheKey<TNamespace, `tag:${string}`>;
+
+export interface ModuleCacheKeys<TNamespace extends string = string> {
+  readonly namespace: TNamespace;
+  key<TKey extends string>(key: TKey): ModuleCacheKey<TNamespace, TKey>;
+  /** Key for one variant of a route's response; `vary` is hashed, so its order does not matter. */
+  route<TRoute extends string>(route: TRoute, vary: Record<string, unknown>): RouteCacheKey<TNamespace, TRoute>;
+  tag(tag: string): CacheTagKey<TNamespace>;
+}
+
+export interface CachedRouteResponse {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+  readonly body: unknown;
+  readonly etag: string;
+  /** Epoch milliseconds. */
+  readonly storedAt: number;
+  /** Tag versions at the time the response was stored; a newer version means it was invalidated. */
+  readonly tags: Record<string, number>;
+}
+
+export interface RouteCacheOptions extends AccessCheckOptions {
+  /** Shared backend; every key is prefixed with `namespace`. */
+  readonly cache: CacheProvider<string, unknown>;
+  /** Usually `module.manifest.name`. Must not contain `:`. */
+  readonly namespace: string;
+  /**
+   * Resolves the session for `vary.session` (falling back to `context.session`) and checks the
+   * `auth` requirement of a route before serving it from the cache. Routes with `auth` are not
+   * cached without it.
+   */
+  readonly auth?: AuthProvider;
+  readonly now?: () => Date;
+}
+
+export interface CachingDispatcher<TContext extends RequestContext = RequestContext> extends RequestDispatcher<TContext> {
+  readonly keys: ModuleCacheKeys;
+  /** Invalidates every cached response carrying one of the tags. */
+  invalidate(tags: readonly string[]): Promise<void>;
+  /** Resolves once in-flight background revalidations have finished. */
+  settle(): Promise<void>;
+}
+
+type CacheState = 'HIT' | 'MISS' | 'STALE';
+
+// Two 32-bit FNV-1a variants; enough to keep keys short and ETags stable without a crypto dependency.
+const hash = (input: string): string => {
+  let first = 0x811c9dc5;
+  let second = 0x5bd1e995;
+  for (let index = 0; index < input.length; index += 1) {
+    const code = input.charCodeAt(index);
+    first = Math.imul(first ^ code, 0x01000193);
+    second = Math.imul(second ^ code, 0x01000193);
+  }
+  return `${(first >>> 0).toString(16).padStart(8, '0')}${(second >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const pick = <T>(values: Record<string, T>, selection: boolean | readonly string[] | undefined): Record<string, T> | undefined => {
+  if (selection === false) {
+    return undefined;
+  }
+  if (selection === undefined || selection === true) {
+    return values;
+  }
+  return Object.fromEntries(selection.filter((key) => key in values).map((key) => [key, values[key]]));
+};
+
+const fillTag = (tag: string, params: Record<string, string>): string => tag.replace(/\{([^}]+)\}/g, (_, name: string) => params[name] ?? '');
+
+const matchesEtag = (header: string | undefined, etag: string): boolean =>
+  header !== undefined &&
+  header.split(',').some((candidate) => {
+    const value = candidate.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag;
+  });
+
+const isCacheable = (result: DispatchResult): boolean =>
+  result.status >= 200 && result.status < 300 && result.status !== 206 && !Object.keys(result.headers).some((name) => name.toLowerCase() === 'set-cookie');
+
+export function createCacheKeys<TNamespace extends string>(namespace: TNamespace): ModuleCacheKeys<TNamespace> {
+  if (namespace.length === 0 || namespace.includes(':')) {
+    throw new Error(`Cache namespace "${namespace}" must be non-empty and must not contain ":".`);
+  }
+  return {
+    namespace,
+    key: (key) => `${namespace}:${key}`,
+    route: (route, vary) => `${namespace}:route:${route}:${hash(stableStringify(vary))}`,
+    tag: (tag) => `${namespace}:tag:${tag}`
+  };
+}
+
+/** A view of `cache` whose keys all live under `namespace`, for modules sharing one backend. */
+export function namespaceCache<TValue>(cache: CacheProvider<string, TValue>, namespace: string): CacheProvider<string, TValue> {
+  const keys = createCacheKeys(namespace);
+  return {
+    get: (key) => cache.get(keys.key(key)),
+    set: (key, value, options) => cache.set(keys.key(key), value, options),
+    delete: (key) => cache.delete(keys.key(key))
+  };
+}
+
+/**
+ * Serves GET/HEAD responses of routes with a `definition.cache` policy from a `CacheProvider`.
+ * Responses get an ETag and `cache-control`, `If-None-Match` is answered with 304, stale entries
+ * are refreshed in the background within `staleWhileRevalidateSeconds`, and successful responses
+ * of routes with `cache.invalidates` invalidate those tags. Hits skip middleware, so routes with
+ * middleware are only cached with `cache.skipMiddlewareOnHit`.
+ */
+export function withRouteCache<TContext extends RequestContext>(
+  dispatcher: RequestDispatcher<TContext>,
+  options: RouteCacheOptions
+): CachingDispatcher<TContext> {
+  const { cache } = options;
+  const keys = createCacheKeys(options.namespace);
+  const now = options.now ?? (() => new Date());
+  const revalidating = new Map<string, Promise<void>>();
+  const warned = new Set<string>();
+
+  const tagVersion = async (tag: string): Promise<number> => {
+    const version = await cache.get(keys.tag(tag));
+    return typeof version === 'number' ? version : 0;
+  };
+
+  const invalidate = async (tags: readonly string[]) => {
+    for (const tag of new Set(tags)) {
+      await cache.set(keys.tag(tag), (await tagVersion(tag)) + 1);
+    }
+  };
+
+  const read = async (key: string): Promise<CachedRouteResponse | undefined> => {
+    const entry = (await cache.get(key)) as CachedRouteResponse | undefined;
+    if (!entry) {
+      return undefined;
+    }
+    for (const [tag, version] of Object.entries(entry.tags)) {
+      if ((await tagVersion(tag)) !== version) {
+        await cache.delete(key);
+        return undefined;
+      }
+    }
+    return entry;
+  };
+
+  const cacheControl = (definition: RouteDefinition, policy: RouteCachePolicy): string => {
+    const visibility = policy.public && !definition.auth && !policy.vary?.session ? 'public' : 'private';
+    const stale = policy.staleWhileRevalidateSeconds ? `, stale-while-revalidate=${policy.staleWhileRevalidateSeconds}` : '';
+    return `${visibility}, max-age=${policy.ttlSeconds}${stale}`;
+  };
+
+  // Tells shared caches which request headers select the variant, so they do not serve one to everyone.
+  const varyHeader = (policy: RouteCachePolicy): Record<string, string> =>
+    policy.vary?.headers?.length ? { vary: policy.vary.headers.map((name) => name.toLowerCase()).join(', ') } : {};
+
+  const respond = (
+    request: DispatchRequest<TContext>,
+    entry: CachedRouteResponse,
+    state: CacheState,
+    control: string,
+    vary: Record<string, string>
+  ): DispatchResult => {
+    const headers = {
+      ...entry.headers,
+      ...vary,
+      etag: entry.etag,
+      'cache-control': control,
+      age: String(Math.max(0, Math.floor((now().getTime() - entry.storedAt) / 1000))),
+      'x-cache': state
+    };
+    if (matchesEtag(normalizeHeaders(request.headers)['if-none-match'], entry.etag)) {
+      return { status: 304, headers, body: undefined };
+    }
+    return { status: entry.status, headers, body: request.method === 'HEAD' ? undefined : entry.body };
+  };
+
+  // HEAD requests for GET routes are fetched as GET so the stored entry has a body.
+  const refresh = async (
+    request: DispatchRequest<TContext>,
+    definition: RouteDefinition,
+    policy: RouteCachePolicy & { readonly ttlSeconds: number },
+    key: string,
+    tags: readonly string[]
+  ): Promise<{ readonly result: DispatchResult; readonly entry?: CachedRouteResponse }> => {
+    const method = request.method === 'HEAD' && definition.method === 'GET' ? 'GET' : request.method;
+    const versions = Object.fromEntries(await Promise.all(tags.map(async (tag) => [tag, await tagVersion(tag)] as const)));
+    const result = await dispatcher.dispatch({ ...request, method });
+    if (!isCacheable(result)) {
+      return { result };
+    }
+    const entry: CachedRouteResponse = {
+      status: result.status,
+      headers: result.headers,
+      body: result.body,
+      etag: `"${hash(stableStringify({ status: result.status, body: result.body }))}"`,
+      storedAt: now().getTime(),
+      tags: versions
+    };
+    await cache.set(key, entry, { ttlSeconds: policy.ttlSeconds + (policy.staleWhileRevalidateSeconds ?? 0) });
+    return { result, entry };
+  };
+
+  const resolveSession = async (context: TContext): Promise<string | undefined> => {
+    const session = options.auth ? await options.auth.getSession(context) : (context.session as { id?: unknown } | null);
+    return typeof session?.id === 'string' ? session.id : undefined;
+  };
+
+  const dispatch = async (request: DispatchRequest<TContext>): Promise<DispatchResult> => {
+    const matched = dispatcher.match(request.method, request.path);
+    const policy = matched?.route.definition.cache;
+    if (!matched || !policy) {
+      return dispatcher.dispatch(request);
+    }
+    const { definition } = matched.route;
+
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      const result = await dispatcher.dispatch(request);
+      if (policy.invalidates && result.status >= 200 && result.status < 300) {
+        await invalidate(policy.invalidates.map((tag) => fillTag(tag, matched.params)));
+      }
+      return result;
+    }
+
+    const { ttlSeconds } = policy;
+    if (!ttlSeconds) {
+      return dispatcher.dispatch(request);
+    }
+    // Without varying by session, one user's response could be served to another.
+    if (definition.auth && !policy.vary?.session) {
+      if (!warned.has(definition.name)) {
+        warned.add(definition.name);
+        request.context.logger.warn('route cache skipped for authenticated route without vary.session', { route: definition.name });
+      }
+      return dispatcher.dispatch(request);
+    }
+    // Hits bypass the dispatcher, so auth, rate limiting, or tracing done in middleware would not run.
+    if (matched.middleware.length > 0 && !policy.skipMiddlewareOnHit) {
+      if (!warned.has(definition.name)) {
+        warned.add(definition.name);
+        request.context.logger.warn('route cache skipped for route with middleware', { route: definition.name, middleware: matched.middleware });
+      }
+      return dispatcher.dispatch(request);
+    }
+
+    // Hits skip the dispatcher, so roles and permissions are checked here on every request; a
+    // revoked permission takes effect at once even though the session id is unchanged.
+    let session: string | undefined;
+    if (definition.auth) {
+      const access = await checkAccess(definition.auth, options.auth, request.context, options);
+      session = access.allowed && typeof access.session?.id === 'string' ? access.session.id : undefined;
+      if (!session) {
+        return dispatcher.dispatch(request);
+      }
+    } else if (policy.vary?.session) {
+      session = await resolveSession(request.context);
+    }
+
+    const { search } = stripQueryString(request.path);
+    const headers = normalizeHeaders(request.headers);
+    const vary = {
+      params: pick(matched.params, policy.vary?.params),
+      query: pick(normalizeQuery(request.query, search), policy.vary?.query),
+      headers: Object.fromEntries((policy.vary?.headers ?? []).map((name) => [name.toLowerCase(), headers[name.toLowerCase()] ?? null])),
+      session: policy.vary?.session ? (session ?? null) : undefined
+    };
+    const key = keys.route(definition.name, vary);
+    const tags = (policy.tags ?? []).map((tag) => fillTag(tag, matched.params));
+    const control = cacheControl(definition, policy);
+    const varyHeaders = varyHeader(policy);
+    const timed = { ...policy, ttlSeconds };
+
+    const entry = await read(key);
+    const age = entry ? now().getTime() - entry.storedAt : Infinity;
+    if (entry && age < ttlSeconds * 1000) {
+      return respond(request, entry, 'HIT', control, varyHeaders);
+    }
+    if (entry && age < (ttlSeconds + (policy.staleWhileRevalidateSeconds ?? 0)) * 1000) {
+      if (!revalidating.has(key)) {
+        const pending = refresh(request, definition, timed, key, tags)
+          .then(() => undefined)
+          .catch((error: unknown) => request.context.logger.warn('route cache revalidation failed', { route: definition.name, error }))
+          .finally(() => revalidating.delete(key));
+        revalidating.set(key, pending);
+      }
+      return respond(request, entry, 'STALE', control, varyHeaders);
+    }
+
+    const { result, entry: stored } = await refresh(request, definition, timed, key, tags);
+    if (!stored) {
+      return request.method === 'HEAD' ? { ...result, body: undefined } : result;
+    }
+    return respond(request, stored, 'MISS', control, varyHeaders);
+  };
+
+  return {
+    routes: dispatcher.routes,
+    match: dispatcher.match,
+    dispatch,
+    keys,
+    invalidate,
+    settle: async () => {
+      await Promise.all([...revalidating.values()]);
+    }
+  };
+}
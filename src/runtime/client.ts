@@ -0,0 +1,215 @@
+import { z } from 'zod';
+
+import { moduleErrorSchema, type ModuleError, type ModuleErrorCode, type RouteResponseVariant, type RouteSpec } from '../index.js';
+import { MODULE_ERROR_STATUS, zodIssueDetails } from './errors.js';
+import { parsePathPattern } from './paths.js';
+import { isResponseMap, responseForStatus } from './responses.js';
+
+type AnyRouteSpec = RouteSpec<any, any, any, any, any, string>;
+
+type ClientInputField<TKey extends string, TSchema> = TSchema extends z.ZodTypeAny
+  ? { readonly [K in TKey]: z.input<TSchema> }
+  : { readonly [K in TKey]?: undefined };
+
+// Routes without a specific `schemas.headers` type (the `RouteSpec` default) accept any headers.
+type DeclaredHeaders<TRoute extends AnyRouteSpec> =
+  TRoute extends RouteSpec<any, any, any, any, any, any, infer THeaders>
+    ? [THeaders] extends [z.ZodTypeAny]
+      ? z.ZodTypeAny extends THeaders
+        ? undefined
+        : THeaders
+      : undefined
+    : undefined;
+
+// Declared headers are required; headers outside the schema (credentials, tracing) may still be sent.
+type ClientHeadersField<THeaders> = THeaders extends z.ZodTypeAny
+  ? { readonly headers: z.input<THeaders> & Record<string, string> }
+  : { readonly headers?: Record<string, string> };
+
+export type RouteClientInput<TRoute extends AnyRouteSpec> = TRoute extends RouteSpec<any, infer TParams, infer TQuery, infer TBody, any, any>
+  ? ClientInputField<'params', TParams> &
+      ClientInputField<'query', TQuery> &
+      ClientInputField<'body', TBody> &
+      ClientHeadersField<DeclaredHeaders<TRoute>> & {
+        readonly signal?: AbortSignal;
+      }
+  : never;
+
+type ClientResponseVariant<TRoute extends AnyRouteSpec> = TRoute extends RouteSpec<any, any, any, any, infer TResponse, any>
+  ? TResponse extends z.ZodTypeAny
+    ? { readonly status: number; readonly body: z.infer<TResponse> }
+    : RouteResponseVariant<TResponse>
+  : { readonly status: number; readonly body: unknown };
+
+export type RouteClientResult<TRoute extends AnyRouteSpec> =
+  | ({
+      readonly ok: true;
+      readonly headers: Headers;
+    } & ClientResponseVariant<TRoute>)
+  | {
+      readonly ok: false;
+      readonly status: number;
+      readonly headers: Headers;
+      readonly errors: readonly ModuleError[];
+    };
+
+type RequiresInput<TRoute extends AnyRouteSpec> = TRoute extends RouteSpec<any, infer TParams, infer TQuery, infer TBody, any, any>
+  ? [TParams, TQuery, TBody, DeclaredHeaders<TRoute>] extends [undefined, undefined, undefined, undefined]
+    ? false
+    : true
+  : true;
+
+export type RouteClientMethod<TRoute extends AnyRouteSpec> = RequiresInput<TRoute> extends true
+  ? (input: RouteClientInput<TRoute>) => Promise<RouteClientResult<TRoute>>
+  : (input?: RouteClientInput<TRoute>) => Promise<RouteClientResult<TRoute>>;
+
+export type RouteClient<TRoutes extends readonly AnyRouteSpec[]> = {
+  readonly [TRoute in TRoutes[number] as TRoute['definition']['name']]: RouteClientMethod<TRoute>;
+};
+
+export interface CreateClientOptions {
+  readonly baseUrl: string;
+  /** Defaults to `globalThis.fetch`; inject one for tests or non-standard runtimes. */
+  readonly fetch?: typeof fetch;
+  readonly headers?: Record<string, string>;
+}
+
+// Built lazily: index.ts re-exports this module, so its schemas are not initialized at load time.
+let errorEnvelopeSchema: z.ZodType<{ errors: ModuleError[] }> | undefined;
+const getErrorEnvelopeSchema = () => (errorEnvelopeSchema ??= z.object({ errors: z.array(moduleErrorSchema) }));
+
+const codeForStatus = (status: number): ModuleErrorCode => {
+  if (status === 403) {
+    return 'auth';
+  }
+  const match = (Object.entries(MODULE_ERROR_STATUS) as [ModuleErrorCode, number][]).find(([, code]) => code === status);
+  return match ? match[0] : status >= 500 ? 'internal' : 'domain';
+};
+
+const buildPath = (path: string, params: Record<string, unknown> | undefined): string => {
+  const segments = parsePathPattern(path).segments.map((segment) => {
+    if (segment.kind === 'static') {
+      return segment.value;
+    }
+    const value = params?.[segment.name];
+    if (value === undefined || value === null) {
+      throw new Error(`Missing path parameter "${segment.name}" for ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+  return `/${segments.join('/')}`;
+};
+
+const buildQuery = (query: Record<string, unknown> | undefined): string => {
+  if (!query) {
+    return '';
+  }
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        search.append(key, String(item));
+      }
+    }
+  }
+  const encoded = search.toString();
+  return encoded ? `?${encoded}` : '';
+};
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (text.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Builds a fetch-based client keyed by route `name`. Responses are validated against
+ * `schemas.response`; error responses decode into `ModuleError`s.
+ */
+export function createClient<const TRoutes extends readonly AnyRouteSpec[]>(
+  routes: TRoutes | undefined,
+  options: CreateClientOptions
+): RouteClient<TRoutes> {
+  const fetchImpl = options.fetch ?? globalThis.fetch;
+  if (!fetchImpl) {
+    throw new Error('createClient requires a fetch implementation.');
+  }
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const client: Record<string, (input?: Record<string, unknown>) => Promise<RouteClientResult<AnyRouteSpec>>> = {};
+
+  for (const route of routes ?? []) {
+    const { definition, schemas } = route;
+
+    client[definition.name] = async (input = {}) => {
+      const url = `${baseUrl}${buildPath(definition.path, input.params as Record<string, unknown> | undefined)}${buildQuery(
+        input.query as Record<string, unknown> | undefined
+      )}`;
+      const headers: Record<string, string> = { accept: 'application/json', ...options.headers, ...(input.headers as Record<string, string>) };
+      const hasBody = input.body !== undefined && definition.method !== 'GET' && definition.method !== 'HEAD';
+      if (hasBody) {
+        headers['content-type'] = 'application/json';
+      }
+
+      const response = await fetchImpl(url, {
+        method: definition.method,
+        headers,
+        body: hasBody ? JSON.stringify(input.body) : undefined,
+        signal: input.signal as AbortSignal | undefined
+      });
+      const body = await readBody(response);
+
+      const declared = responseForStatus(schemas.response, response.status);
+      // Response maps may declare non-2xx statuses with their own bodies; those decode like successes.
+      if (!response.ok && !(isResponseMap(schemas.response) && declared)) {
+        const envelope = getErrorEnvelopeSchema().safeParse(body);
+        return {
+          ok: false,
+          status: response.status,
+          headers: response.headers,
+          errors: envelope.success
+            ? envelope.data.errors
+            : [{ code: codeForStatus(response.status), message: response.statusText || `Request failed with status ${response.status}`, details: body }]
+        };
+      }
+
+      if (!declared) {
+        return {
+          ok: false,
+          status: response.status,
+          headers: response.headers,
+          errors: [{ code: 'validation', message: `Response from ${definition.name} has undeclared status ${response.status}`, details: body }]
+        };
+      }
+
+      if (!declared.body) {
+        return { ok: true, status: response.status, headers: response.headers, body: undefined };
+      }
+
+      const parsed = declared.body.safeParse(body);
+      if (!parsed.success) {
+        return {
+          ok: false,
+          status: response.status,
+          headers: response.headers,
+          errors: [
+            {
+              code: 'validation',
+              message: `Response from ${definition.name} failed validation`,
+              details: zodIssueDetails(parsed.error)
+            }
+          ]
+        };
+      }
+
+      return { ok: true, status: response.status, headers: response.headers, body: parsed.data };
+    };
+  }
+
+  return client as RouteClient<TRoutes>;
+}
@@ -0,0 +1,138 @@
+interface CronField {
+  readonly name: string;
+  readonly min: number;
+  readonly max: number;
+  readonly aliases?: readonly string[];
+}
+
+export interface CronSchedule {
+  readonly expression: string;
+  readonly seconds?: readonly number[];
+  readonly minutes: readonly number[];
+  readonly hours: readonly number[];
+  readonly daysOfMonth: readonly number[];
+  readonly months: readonly number[];
+  readonly daysOfWeek: readonly number[];
+}
+
+export type CronParseResult =
+  | { readonly valid: true; readonly schedule: CronSchedule }
+  | { readonly valid: false; readonly reason: string };
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const SECOND: CronField = { name: 'second', min: 0, max: 59 };
+const MINUTE: CronField = { name: 'minute', min: 0, max: 59 };
+const HOUR: CronField = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: CronField = { name: 'day of month', min: 1, max: 31 };
+const MONTH: CronField = { name: 'month', min: 1, max: 12, aliases: MONTH_NAMES };
+// 7 is accepted as an alias for Sunday and normalized to 0.
+const DAY_OF_WEEK: CronField = { name: 'day of week', min: 0, max: 7, aliases: DAY_NAMES };
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const parseValue = (raw: string, field: CronField): number => {
+  const alias = field.aliases?.indexOf(raw.toUpperCase()) ?? -1;
+  if (alias !== -1) {
+    return alias + field.min;
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`invalid ${field.name} value "${raw}"`);
+  }
+  const value = Number(raw);
+  if (value < field.min || value > field.max) {
+    throw new Error(`${field.name} value ${value} is outside ${field.min}-${field.max}`);
+  }
+  return value;
+};
+
+const parseField = (raw: string, field: CronField): number[] => {
+  const values = new Set<number>();
+
+  for (const part of raw.split(',')) {
+    const [range, stepRaw, ...rest] = part.split('/');
+    if (rest.length > 0 || range === '') {
+      throw new Error(`invalid ${field.name} expression "${part}"`);
+    }
+
+    let step = 1;
+    if (stepRaw !== undefined) {
+      if (!/^\d+$/.test(stepRaw) || Number(stepRaw) === 0) {
+        throw new Error(`invalid ${field.name} step "${stepRaw}"`);
+      }
+      step = Number(stepRaw);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*' || range === '?') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to, ...extra] = range.split('-');
+      if (extra.length > 0) {
+        throw new Error(`invalid ${field.name} range "${range}"`);
+      }
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`${field.name} range "${range}" is reversed`);
+      }
+    } else {
+      start = parseValue(range, field);
+      end = stepRaw === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+};
+
+/**
+ * Parses a standard 5-field cron expression (or 6 fields with leading seconds) and the
+ * usual `@daily`-style macros. Month and weekday names (`JAN`, `MON`) are accepted.
+ */
+export function parseCronExpression(expression: string): CronParseResult {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = expanded.split(/\s+/).filter(Boolean);
+
+  if (parts.length !== 5 && parts.length !== 6) {
+    return { valid: false, reason: `expected 5 or 6 fields but found ${parts.length}` };
+  }
+
+  try {
+    const [seconds, ...rest] = parts.length === 6 ? parts : [undefined, ...parts];
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = rest as string[];
+    return {
+      valid: true,
+      schedule: {
+        expression: trimmed,
+        seconds: seconds === undefined ? undefined : parseField(seconds, SECOND),
+        minutes: parseField(minutes, MINUTE),
+        hours: parseField(hours, HOUR),
+        daysOfMonth: parseField(daysOfMonth, DAY_OF_MONTH),
+        months: parseField(months, MONTH),
+        daysOfWeek: [...new Set(parseField(daysOfWeek, DAY_OF_WEEK).map((day) => (day === 7 ? 0 : day)))].sort((a, b) => a - b)
+      }
+    };
+  } catch (error) {
+    return { valid: false, reason: (error as Error).message };
+  }
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  return parseCronExpression(expression).valid;
+}
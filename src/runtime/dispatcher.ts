@@ -0,0 +1,323 @@
+import type { z } from 'zod';
+
+import type {
+  AuthProvider,
+  DatabaseProvider,
+  HttpMethod,
+  MiddlewareSpec,
+  ModuleDefinition,
+  ModuleError,
+  RequestContext,
+  RouteHandlerResult,
+  RouteResponses,
+  RouteSpec
+} from '../index.js';
+import { checkAccess, checkCsrf, type AccessCheckOptions } from './auth.js';
+import { isDevelopment, ModuleException, statusForErrors, zodIssueDetails } from './errors.js';
+import { resolveMiddleware, runMiddleware } from './middleware.js';
+import { comparePathSpecificity, matchPath, parsePathPattern, type PathPattern } from './paths.js';
+import { defaultStatus, responseForStatus } from './responses.js';
+import type { RequestServices, ServiceContainer } from './services.js';
+import { isolationLevelOf, runInTransaction } from './transactions.js';
+
+export type DispatchQuery = URLSearchParams | Record<string, string | readonly string[] | undefined>;
+
+export interface DispatchRequest<TContext extends RequestContext = RequestContext> {
+  readonly method: HttpMethod;
+  readonly path: string;
+  readonly query?: DispatchQuery;
+  readonly headers?: Record<string, string | readonly string[] | undefined>;
+  readonly body?: unknown;
+  readonly context: TContext;
+}
+
+export interface DispatchResult {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+  readonly body: unknown;
+}
+
+export interface DispatcherOptions extends AccessCheckOptions {
+  /** Enforces `definition.auth` on routes; routes that require auth fail closed without it. */
+  readonly auth?: AuthProvider;
+  /** Attaches singleton and request-scoped services as `context.services` for each dispatched request. */
+  readonly services?: Pick<ServiceContainer, 'forRequest'>;
+  /** Runs `transactional` routes in `database.transaction()`; such routes fail closed without it. */
+  readonly database?: DatabaseProvider<unknown>;
+}
+
+export interface RouteMatch<TContext extends RequestContext = RequestContext> {
+  readonly route: RouteSpec<TContext, any, any, any, any>;
+  readonly params: Record<string, string>;
+  /** Names of the module and route middleware that run for the route, in order. */
+  readonly middleware: readonly string[];
+}
+
+export interface RequestDispatcher<TContext extends RequestContext = RequestContext> {
+  readonly routes: readonly RouteSpec<TContext, any, any, any, any>[];
+  match(method: HttpMethod, path: string): RouteMatch<TContext> | undefined;
+  dispatch(request: DispatchRequest<TContext>): Promise<DispatchResult>;
+}
+
+interface CompiledRoute<TContext extends RequestContext> {
+  readonly spec: RouteSpec<TContext, any, any, any, any>;
+  readonly pattern: PathPattern;
+  readonly middleware: readonly MiddlewareSpec<any, any>[];
+}
+
+type InputSource = 'params' | 'query' | 'body' | 'headers';
+
+const errorResult = (status: number, errors: readonly ModuleError[], headers: Record<string, string> = {}): DispatchResult => ({
+  status,
+  headers,
+  body: { errors }
+});
+
+const validationError = (source: InputSource | 'response', error: z.ZodError, requestId?: string): ModuleError => ({
+  code: 'validation',
+  message: source === 'response' ? 'Route response failed validation' : `Invalid request ${source}`,
+  details: { source, ...zodIssueDetails(error) },
+  correlationId: requestId
+});
+
+const exceptionResult = (exception: ModuleException, context: RequestContext): DispatchResult =>
+  errorResult(
+    exception.status,
+    [exception.toModuleError({ correlationId: context.requestId, includeStack: isDevelopment(context.env) })],
+    { ...(exception.headers ?? {}) }
+  );
+
+export const stripQueryString = (path: string): { pathname: string; search?: string } => {
+  const index = path.indexOf('?');
+  return index === -1 ? { pathname: path } : { pathname: path.slice(0, index), search: path.slice(index + 1) };
+};
+
+const appendValue = (target: Record<string, string | string[]>, key: string, value: string) => {
+  const existing = target[key];
+  if (existing === undefined) {
+    target[key] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    target[key] = [existing, value];
+  }
+};
+
+export const normalizeQuery = (query: DispatchQuery | undefined, search: string | undefined): Record<string, string | string[]> => {
+  const result: Record<string, string | string[]> = {};
+  if (search) {
+    new URLSearchParams(search).forEach((value, key) => appendValue(result, key, value));
+  }
+  if (query instanceof URLSearchParams) {
+    query.forEach((value, key) => appendValue(result, key, value));
+  } else if (query) {
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined) {
+        continue;
+      }
+      for (const item of typeof value === 'string' ? [value] : value) {
+        appendValue(result, key, item);
+      }
+    }
+  }
+  return result;
+};
+
+export const normalizeHeaders = (headers: DispatchRequest['headers']): Record<string, string> => {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    if (value !== undefined) {
+      result[key.toLowerCase()] = typeof value === 'string' ? value : value.join(', ');
+    }
+  }
+  return result;
+};
+
+const isErrorResponse = (result: RouteHandlerResult<RouteResponses>): result is Extract<RouteHandlerResult<RouteResponses>, { errors: unknown }> =>
+  'errors' in result && Array.isArray((result as { errors?: unknown }).errors);
+
+export function createDispatcher<TContext extends RequestContext>(
+  module: ModuleDefinition<TContext, any, readonly RouteSpec<TContext, any, any, any, any>[], any>,
+  options: DispatcherOptions = {}
+): RequestDispatcher<TContext> {
+  const routes = [...(module.routes ?? [])];
+  const compiled: CompiledRoute<TContext>[] = routes
+    // Resolving chains up front rejects routes naming unknown middleware when the dispatcher is created.
+    .map((spec) => ({ spec, pattern: parsePathPattern(spec.definition.path), middleware: resolveMiddleware(module, spec) }))
+    .sort((left, right) => comparePathSpecificity(left.pattern, right.pattern));
+
+  const chains = new Map(compiled.map((route) => [route.spec, route.middleware]));
+
+  const findByPath = (pathname: string) =>
+    compiled.flatMap((route) => {
+      const params = matchPath(route.pattern, pathname);
+      return params ? [{ route, params }] : [];
+    });
+
+  const match = (method: HttpMethod, path: string): RouteMatch<TContext> | undefined => {
+    const candidates = findByPath(stripQueryString(path).pathname);
+    const exact = candidates.find((candidate) => candidate.route.spec.definition.method === method);
+    // HEAD falls back to the GET handler when no explicit HEAD route exists.
+    const resolved = exact ?? (method === 'HEAD' ? candidates.find((candidate) => candidate.route.spec.definition.method === 'GET') : undefined);
+    return resolved
+      ? {
+          route: resolved.route.spec,
+          params: resolved.params,
+          middleware: resolved.route.middleware.map((entry) => entry.definition.name)
+        }
+      : undefined;
+  };
+
+  const dispatch = async (request: DispatchRequest<TContext>): Promise<DispatchResult> => {
+    const { pathname, search } = stripQueryString(request.path);
+    const { context } = request;
+    const matched = match(request.method, pathname);
+
+    if (!matched) {
+      const allowed = [...new Set(findByPath(pathname).map((candidate) => candidate.route.spec.definition.method))];
+      if (allowed.length > 0) {
+        return errorResult(
+          405,
+          [{ code: 'not_found', message: `Method ${request.method} is not allowed for ${pathname}`, correlationId: context.requestId }],
+          { allow: allowed.join(', ') }
+        );
+      }
+      return errorResult(404, [{ code: 'not_found', message: `No route matches ${request.method} ${pathname}`, correlationId: context.requestId }]);
+    }
+
+    const { route, params: rawParams } = matched;
+    const { schemas, definition } = route;
+
+    // Handlers and middleware log with the module and request bound, whatever logger the host supplies.
+    const logger = context.logger.with({ module: module.manifest.name, requestId: context.requestId });
+    let routeContext = { ...context, logger } as TContext;
+    const requestHeaders = normalizeHeaders(request.headers);
+    const csrf = await checkCsrf(options.auth, context, { method: request.method, headers: requestHeaders, body: request.body });
+    if (!csrf.allowed) {
+      return errorResult(csrf.status, [csrf.error]);
+    }
+    if (definition.auth) {
+      const access = await checkAccess(definition.auth, options.auth, context, options);
+      if (!access.allowed) {
+        return errorResult(access.status, [access.error]);
+      }
+      routeContext = { ...routeContext, session: access.session };
+    }
+
+    const raw: Record<InputSource, unknown> = {
+      params: rawParams,
+      query: normalizeQuery(request.query, search),
+      body: request.body,
+      headers: requestHeaders
+    };
+
+    // Middleware wraps input validation as well, so e.g. auth can reject before input is inspected.
+    const terminal = async (current: TContext): Promise<RouteHandlerResult<RouteResponses>> => {
+      const parsed: Partial<Record<InputSource, unknown>> = {};
+      const errors: ModuleError[] = [];
+      for (const source of ['params', 'query', 'body', 'headers'] as const) {
+        const schema = schemas[source] as z.ZodTypeAny | undefined;
+        if (!schema) {
+          continue;
+        }
+        const result = schema.safeParse(raw[source]);
+        if (result.success) {
+          parsed[source] = result.data;
+        } else {
+          errors.push(validationError(source, result.error, context.requestId));
+        }
+      }
+
+      if (errors.length > 0) {
+        return { status: 400, errors };
+      }
+
+      const invoke = (handlerContext: TContext) =>
+        route.handler({
+          ...handlerContext,
+          params: parsed.params ?? {},
+          query: parsed.query ?? {},
+          body: parsed.body ?? {}
+        } as Parameters<typeof route.handler>[0]);
+
+      if (!definition.transactional) {
+        return invoke(current);
+      }
+      if (!options.database?.transaction) {
+        logger.error('transactional route has no database provider', { route: definition.name });
+        return { status: 500, errors: [{ code: 'internal', message: 'Route requires a database transaction', correlationId: context.requestId }] };
+      }
+      return runInTransaction(options.database, current, invoke, {
+        isolationLevel: isolationLevelOf(definition.transactional),
+        shouldRollback: isErrorResponse
+      });
+    };
+
+    let result: RouteHandlerResult<RouteResponses>;
+    let scope: RequestServices | undefined;
+    try {
+      scope = await options.services?.forRequest(routeContext);
+      if (scope) {
+        routeContext = { ...routeContext, services: scope.services };
+      }
+      result = await runMiddleware(chains.get(route) ?? [], routeContext, terminal);
+    } catch (error) {
+      if (error instanceof ModuleException) {
+        return exceptionResult(error, context);
+      }
+      logger.error('route handler failed', { route: definition.name, error });
+      return errorResult(500, [{ code: 'internal', message: 'Route handler failed', correlationId: context.requestId }]);
+    } finally {
+      // The response is already decided; a failing dispose is logged rather than replacing it.
+      try {
+        await scope?.dispose();
+      } catch (error) {
+        logger.error('request services dispose failed', { route: definition.name, error });
+      }
+    }
+
+    if (result instanceof ModuleException) {
+      return exceptionResult(result, context);
+    }
+
+    const headers = { ...(result.headers ?? {}) };
+
+    if (isErrorResponse(result)) {
+      const errors = result.errors.map((error) => (error.correlationId ? error : { ...error, correlationId: context.requestId }));
+      return errorResult(result.status ?? statusForErrors(errors), errors, headers);
+    }
+
+    const status = result.status ?? defaultStatus(schemas.response, definition);
+    const declared = responseForStatus(schemas.response, status);
+    if (!declared) {
+      logger.error('route returned an undeclared status', { route: definition.name, status });
+      return errorResult(500, [{ code: 'internal', message: `Route returned undeclared status ${status}`, correlationId: context.requestId }]);
+    }
+
+    let body: unknown = undefined;
+    if (declared.body) {
+      const response = declared.body.safeParse(result.body);
+      if (!response.success) {
+        logger.error('route response failed validation', { route: definition.name });
+        return errorResult(500, [validationError('response', response.error, context.requestId)]);
+      }
+      body = response.data;
+    }
+
+    if (declared.headers) {
+      const responseHeaders = declared.headers.safeParse(normalizeHeaders(headers));
+      if (!responseHeaders.success) {
+        logger.error('route response headers failed validation', { route: definition.name });
+        return errorResult(500, [validationError('response', responseHeaders.error, context.requestId)]);
+      }
+    }
+
+    return {
+      status,
+      headers,
+      body: request.method === 'HEAD' ? undefined : body
+    };
+  };
+
+  return { routes, match, dispatch };
+}
@@ -0,0 +1,174 @@
+import { z } from 'zod';
+
+import type {
+  EnvAccessor,
+  EnvVariableDefinition,
+  ModuleDiagnostic,
+  ModuleEnv,
+  ModuleEnvAccessor,
+  ModuleEnvSchema
+} from '../index.js';
+
+/** Raw variables, either as a plain record (`ModuleBuildOptions.env`, `process.env`) or an accessor. */
+export type EnvSource = EnvAccessor | Record<string, string | undefined>;
+
+export interface LoadModuleEnvOptions {
+  /** Attached to every diagnostic so hosts can point at the module source. */
+  readonly file?: string;
+}
+
+export type LoadModuleEnvResult<TAccessor extends EnvAccessor = ModuleEnvAccessor> =
+  | { readonly ok: true; readonly env: TAccessor; readonly diagnostics: readonly ModuleDiagnostic[] }
+  | { readonly ok: false; readonly diagnostics: readonly ModuleDiagnostic[] };
+
+// Stored on the schema's `_def`, which Zod copies through `.describe()` and keeps inside wrappers.
+const SECRET_FLAG = 'webstirSecret';
+
+const TRUE_VALUES = new Set(['true', '1', 'yes', 'on']);
+const FALSE_VALUES = new Set(['false', '0', 'no', 'off']);
+
+/** Parses `true`/`false`, `1`/`0`, `yes`/`no`, and `on`/`off` (case-insensitive). `z.coerce.boolean()` treats `"false"` as `true`. */
+export const envBoolean = (): z.ZodEffects<z.ZodBoolean, boolean, unknown> =>
+  z.preprocess((value) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    const normalized = value.trim().toLowerCase();
+    return TRUE_VALUES.has(normalized) ? true : FALSE_VALUES.has(normalized) ? false : value;
+  }, z.boolean());
+
+/** Validates an absolute URL and parses it into a `URL`. */
+export const envUrl = (): z.ZodEffects<z.ZodString, URL, string> =>
+  z
+    .string()
+    .url()
+    .transform((value) => new URL(value));
+
+/** Marks a variable as secret: its value never appears in diagnostics and its default is left out of the manifest. */
+export function envSecret<TSchema extends z.ZodTypeAny>(schema: TSchema): TSchema {
+  const Schema = schema.constructor as new (def: unknown) => TSchema;
+  return new Schema({ ...schema._def, [SECRET_FLAG]: true });
+}
+
+// Wrappers that keep the variable's identity; arrays and objects are values, not wrappers.
+const innerSchema = (schema: z.ZodTypeAny): z.ZodTypeAny | undefined => {
+  const def = schema._def as { typeName?: string; innerType?: z.ZodTypeAny; schema?: z.ZodTypeAny; type?: z.ZodTypeAny; in?: z.ZodTypeAny };
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return def.innerType;
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return def.schema;
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return def.type;
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return def.in;
+    default:
+      return undefined;
+  }
+};
+
+const unwrap = (schema: z.ZodTypeAny): z.ZodTypeAny[] => {
+  const chain: z.ZodTypeAny[] = [];
+  for (let current: z.ZodTypeAny | undefined = schema; current; current = innerSchema(current)) {
+    chain.push(current);
+  }
+  return chain;
+};
+
+export const isEnvSecret = (schema: z.ZodTypeAny): boolean =>
+  unwrap(schema).some((entry) => (entry._def as Record<string, unknown>)[SECRET_FLAG] === true);
+
+const defaultValue = (schema: z.ZodTypeAny): unknown => {
+  const withDefault = unwrap(schema).find((entry) => entry instanceof z.ZodDefault) as z.ZodDefault<z.ZodTypeAny> | undefined;
+  return withDefault?._def.defaultValue();
+};
+
+/** The manifest's `env` entries for a schema: name, whether it is required, and non-secret defaults. */
+export function describeModuleEnv(schema: ModuleEnvSchema): EnvVariableDefinition[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, variable]) => {
+    const secret = isEnvSecret(variable);
+    const fallback = secret ? undefined : defaultValue(variable);
+    const description = unwrap(variable).find((entry) => entry.description !== undefined)?.description;
+    return {
+      name,
+      required: !variable.isOptional(),
+      ...(secret ? { secret } : {}),
+      ...(description !== undefined ? { description } : {}),
+      ...(typeof fallback === 'string' || typeof fallback === 'number' || typeof fallback === 'boolean' ? { default: fallback } : {})
+    };
+  });
+}
+
+const readSource = (source: EnvSource): Record<string, string | undefined> =>
+  typeof source.entries === 'function' ? (source as EnvAccessor).entries() : { ...(source as Record<string, string | undefined>) };
+
+const withoutPeriod = (message: string): string => message.replace(/\.+$/, '');
+
+/** An accessor over already-parsed values; `get`/`require`/`entries` still return the raw strings. */
+export function createModuleEnvAccessor<TValues>(raw: Record<string, string | undefined>, values: TValues): ModuleEnvAccessor<TValues> {
+  return {
+    get: (name) => raw[name],
+    require: (name) => {
+      const value = raw[name];
+      if (value === undefined) {
+        throw new Error(`Missing required environment variable "${name}".`);
+      }
+      return value;
+    },
+    entries: () => ({ ...raw }),
+    values,
+    value: (name) => values[name]
+  };
+}
+
+/**
+ * Parses `source` with the module's `env` schema. Empty strings count as unset, and every
+ * missing or invalid variable is reported at once; secret values never appear in messages.
+ * Modules without an `env` schema get an accessor with empty `values`.
+ */
+export function loadModuleEnv<TEnv extends ModuleEnvSchema = ModuleEnvSchema>(
+  module: { readonly manifest: { readonly name: string }; readonly env?: TEnv },
+  source: EnvSource,
+  options: LoadModuleEnvOptions = {}
+): LoadModuleEnvResult<ModuleEnv<TEnv>> {
+  const raw = readSource(source);
+  const schema = module.env;
+  if (!schema) {
+    return { ok: true, env: createModuleEnvAccessor(raw, {}) as ModuleEnv<TEnv>, diagnostics: [] };
+  }
+
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  const input = Object.fromEntries(Object.keys(shape).map((name) => [name, raw[name] === '' ? undefined : raw[name]]));
+  const parsed = schema.safeParse(input);
+  if (parsed.success) {
+    return { ok: true, env: createModuleEnvAccessor(raw, parsed.data) as ModuleEnv<TEnv>, diagnostics: [] };
+  }
+
+  const moduleName = module.manifest.name;
+  const reported = new Set<string>();
+  const diagnostics: ModuleDiagnostic[] = [];
+  for (const issue of parsed.error.issues) {
+    const name = issue.path.length > 0 ? String(issue.path[0]) : '';
+    if (reported.has(name)) {
+      continue;
+    }
+    reported.add(name);
+    const variable = shape[name];
+    let message: string;
+    if (!variable) {
+      message = `Environment of module "${moduleName}" is invalid: ${withoutPeriod(issue.message)}.`;
+    } else if (input[name] === undefined) {
+      message = `Module "${moduleName}" requires environment variable "${name}".`;
+    } else if (isEnvSecret(variable)) {
+      message = `Environment variable "${name}" of module "${moduleName}" is invalid (${issue.code}).`;
+    } else {
+      message = `Environment variable "${name}" of module "${moduleName}" is invalid: ${withoutPeriod(issue.message)}.`;
+    }
+    diagnostics.push(options.file ? { severity: 'error', message, file: options.file } : { severity: 'error', message });
+  }
+  return { ok: false, diagnostics };
+}
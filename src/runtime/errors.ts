@@ -0,0 +1,179 @@
+import type { z } from 'zod';
+
+import type { EnvAccessor, ModuleError, ModuleErrorCode, RequestContext, RouteErrorResponse } from '../index.js';
+
+/** Canonical HTTP status for each error code; hosts and clients map between the two with this table. */
+export const MODULE_ERROR_STATUS: Readonly<Record<ModuleErrorCode, number>> = {
+  validation: 400,
+  auth: 401,
+  not_found: 404,
+  conflict: 409,
+  domain: 422,
+  internal: 500
+};
+
+export const statusForErrors = (errors: readonly ModuleError[]): number =>
+  errors.length > 0 ? MODULE_ERROR_STATUS[errors[0].code] : 500;
+
+export interface ModuleExceptionOptions {
+  /** Overrides the status from `MODULE_ERROR_STATUS` (e.g. 403 for an `auth` error). */
+  readonly status?: number;
+  readonly details?: unknown;
+  readonly cause?: unknown;
+  readonly headers?: Record<string, string>;
+}
+
+export interface SerializeErrorOptions {
+  readonly correlationId?: string;
+  /** Keeps stack traces in serialized causes. Only enable it in development. */
+  readonly includeStack?: boolean;
+}
+
+export interface ValidationIssueDetail {
+  /** Dotted field path, e.g. `items.0.sku`; empty for the value itself. */
+  readonly path: string;
+  readonly message: string;
+  readonly code: string;
+}
+
+const MAX_CAUSE_DEPTH = 5;
+
+/**
+ * A `ModuleError` that handlers can throw or return. Thrown from a route handler or middleware,
+ * the dispatcher answers with its status instead of a generic 500; returned, it is a
+ * `RouteErrorResponse` like any other.
+ */
+export class ModuleException extends Error implements RouteErrorResponse {
+  readonly code: ModuleErrorCode;
+  readonly status: number;
+  readonly details?: unknown;
+  readonly headers?: Record<string, string>;
+
+  constructor(code: ModuleErrorCode, message: string, options: ModuleExceptionOptions = {}) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = 'ModuleException';
+    this.code = code;
+    this.status = options.status ?? MODULE_ERROR_STATUS[code];
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+
+  /** The error as a `RouteErrorResponse` body, with causes redacted. */
+  get errors(): readonly ModuleError[] {
+    return [this.toModuleError()];
+  }
+
+  toModuleError(options: SerializeErrorOptions = {}): ModuleError {
+    return {
+      code: this.code,
+      message: this.message,
+      details: this.details,
+      cause: this.cause === undefined ? undefined : serializeCause(this.cause, options),
+      correlationId: options.correlationId
+    };
+  }
+}
+
+/** `NODE_ENV=development`, the only environment where stacks are serialized by default. */
+export const isDevelopment = (env: Pick<EnvAccessor, 'get'> | undefined): boolean => env?.get('NODE_ENV') === 'development';
+
+/**
+ * Converts an error cause into plain JSON: errors become `{ name, message, code?, cause? }`
+ * (plus `stack` with `includeStack`), cycles and functions are dropped, and nesting is capped.
+ */
+export function serializeCause(cause: unknown, options: Pick<SerializeErrorOptions, 'includeStack'> = {}): unknown {
+  const seen = new WeakSet<object>();
+
+  const visit = (value: unknown, depth: number): unknown => {
+    if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (typeof value !== 'object') {
+      return undefined;
+    }
+    if (seen.has(value) || depth >= MAX_CAUSE_DEPTH) {
+      return '[truncated]';
+    }
+    seen.add(value);
+
+    if (value instanceof Error) {
+      const code = (value as { code?: unknown }).code;
+      return {
+        name: value.name,
+        message: value.message,
+        code: typeof code === 'string' || typeof code === 'number' ? code : undefined,
+        stack: options.includeStack ? value.stack : undefined,
+        cause: value.cause === undefined ? undefined : visit(value.cause, depth + 1)
+      };
+    }
+    if (Array.isArray(value)) {
+      return value.map((entry) => visit(entry, depth + 1));
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, entry]) => [key, visit(entry, depth + 1)] as const)
+        .filter(([, entry]) => entry !== undefined)
+    );
+  };
+
+  return visit(cause, 0);
+}
+
+/** Zod issues as `details.issues`, one entry per failing field. */
+export function zodIssueDetails(error: z.ZodError): { readonly issues: readonly ValidationIssueDetail[] } {
+  return {
+    issues: error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+      code: issue.code
+    }))
+  };
+}
+
+const isZodError = (value: unknown): value is z.ZodError =>
+  value instanceof Error && value.name === 'ZodError' && Array.isArray((value as z.ZodError).issues);
+
+/**
+ * Normalizes anything a handler threw into a `ModuleError`. `ModuleException`s keep their code,
+ * Zod errors become `validation` errors, and everything else is an `internal` error that only
+ * carries the original error as `cause` in development. The correlation id comes from the request.
+ */
+export function toModuleError(error: unknown, context?: Pick<RequestContext, 'requestId' | 'env'>): ModuleError {
+  const options: SerializeErrorOptions = { correlationId: context?.requestId, includeStack: isDevelopment(context?.env) };
+  if (error instanceof ModuleException) {
+    return error.toModuleError(options);
+  }
+  if (isZodError(error)) {
+    return validationFailed(error).toModuleError(options);
+  }
+  return internalError('Internal error', { cause: options.includeStack ? error : undefined }).toModuleError(options);
+}
+
+export const validationFailed = (error: z.ZodError | string, options: ModuleExceptionOptions = {}): ModuleException =>
+  typeof error === 'string'
+    ? new ModuleException('validation', error, options)
+    : new ModuleException('validation', 'Validation failed', { details: zodIssueDetails(error), ...options });
+
+export const unauthorized = (message = 'Authentication required', options: ModuleExceptionOptions = {}): ModuleException =>
+  new ModuleException('auth', message, options);
+
+export const forbidden = (message = 'Not allowed', options: ModuleExceptionOptions = {}): ModuleException =>
+  new ModuleException('auth', message, { status: 403, ...options });
+
+export const notFound = (message = 'Not found', options: ModuleExceptionOptions = {}): ModuleException =>
+  new ModuleException('not_found', message, options);
+
+export const conflict = (message = 'Conflict', options: ModuleExceptionOptions = {}): ModuleException =>
+  new ModuleException('conflict', message, options);
+
+export const domainError = (message: string, options: ModuleExceptionOptions = {}): ModuleException =>
+  new ModuleException('domain', message, options);
+
+export const internalError = (message = 'Internal error', options: ModuleExceptionOptions = {}): ModuleException =>
+  new ModuleException('internal', message, options);
@@ -0,0 +1,172 @@
+import type { z } from 'zod';
+
+import type {
+  EventBus,
+  EventEnvelope,
+  EventHandlerContext,
+  EventListener,
+  EventSpec,
+  JobContext,
+  Logger,
+  ModuleDefinition,
+  PublishOptions
+} from '../index.js';
+
+export type EventBusErrorReport =
+  | {
+      readonly kind: 'invalid-payload';
+      readonly event: string;
+      /** `publisher` when `publish` rejected the payload, `subscriber` when a listener's own schema did. */
+      readonly stage: 'publisher' | 'subscriber';
+      readonly issues: readonly z.ZodIssue[];
+      readonly envelope?: EventEnvelope;
+    }
+  | {
+      readonly kind: 'delivery-failed';
+      readonly event: string;
+      readonly envelope: EventEnvelope;
+      readonly attempts: number;
+      readonly error: unknown;
+    };
+
+export interface InMemoryEventBusOptions {
+  /** Delivery attempts per subscriber before the failure is reported. Defaults to 3. */
+  readonly maxAttempts?: number;
+  readonly logger?: Logger;
+  readonly onError?: (report: EventBusErrorReport) => void;
+  readonly now?: () => Date;
+  readonly generateId?: () => string;
+}
+
+interface Subscriber {
+  readonly listener: EventListener<any>;
+  readonly schema?: z.ZodTypeAny;
+}
+
+const defaultId = (): string => globalThis.crypto.randomUUID();
+
+/**
+ * Reference `EventBus` that delivers in-process. Every subscriber gets at-least-once
+ * delivery with retries, and a failing subscriber never affects the others.
+ */
+export function createInMemoryEventBus(options: InMemoryEventBusOptions = {}): EventBus {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const now = options.now ?? (() => new Date());
+  const generateId = options.generateId ?? defaultId;
+  const subscribers = new Map<string, Set<Subscriber>>();
+
+  const report = (entry: EventBusErrorReport) => {
+    if (options.onError) {
+      options.onError(entry);
+    } else {
+      options.logger?.error(`event bus: ${entry.kind}`, { event: entry.event });
+    }
+  };
+
+  const deliver = async (subscriber: Subscriber, envelope: EventEnvelope) => {
+    let payload = envelope.payload;
+    if (subscriber.schema) {
+      const parsed = subscriber.schema.safeParse(payload);
+      if (!parsed.success) {
+        report({ kind: 'invalid-payload', event: envelope.name, stage: 'subscriber', issues: parsed.error.issues, envelope });
+        return;
+      }
+      payload = parsed.data;
+    }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+      try {
+        await subscriber.listener({ ...envelope, payload, attempt });
+        return;
+      } catch (error) {
+        if (attempt === maxAttempts) {
+          report({ kind: 'delivery-failed', event: envelope.name, envelope, attempts: attempt, error });
+        }
+      }
+    }
+  };
+
+  const publish = async <TPayload extends z.ZodTypeAny>(
+    event: EventSpec<any, TPayload>,
+    payload: z.input<TPayload>,
+    publishOptions: PublishOptions = {}
+  ): Promise<void> => {
+    const name = event.definition.name;
+    const parsed = event.payload.safeParse(payload);
+    if (!parsed.success) {
+      report({ kind: 'invalid-payload', event: name, stage: 'publisher', issues: parsed.error.issues });
+      throw new Error(`Event "${name}" payload failed validation.`);
+    }
+
+    const envelope: EventEnvelope = {
+      id: publishOptions.id ?? generateId(),
+      name,
+      payload: parsed.data,
+      source: publishOptions.source,
+      occurredAt: now(),
+      attempt: 1
+    };
+
+    const targets = [...(subscribers.get(name) ?? [])];
+    await Promise.allSettled(targets.map((subscriber) => deliver(subscriber, envelope)));
+  };
+
+  const subscribe = (
+    event: string | Pick<EventSpec<any, z.ZodTypeAny>, 'definition' | 'payload'>,
+    listener: EventListener<any>
+  ): (() => void) => {
+    const name = typeof event === 'string' ? event : event.definition.name;
+    const subscriber: Subscriber = { listener, schema: typeof event === 'string' ? undefined : event.payload };
+    const set = subscribers.get(name) ?? new Set<Subscriber>();
+    set.add(subscriber);
+    subscribers.set(name, set);
+    return () => {
+      set.delete(subscriber);
+    };
+  };
+
+  return { publish, subscribe };
+}
+
+/**
+ * Subscribes a module's `EventSpec.handler`s and `subscriptions` to the bus and returns a
+ * function that removes them again (call it from `dispose`).
+ */
+export function attachModuleEvents<TContext extends JobContext>(
+  bus: EventBus,
+  module: Pick<ModuleDefinition<any, any, any, any>, 'events' | 'subscriptions'>,
+  context: TContext
+): () => void {
+  const unsubscribers: (() => void)[] = [];
+
+  const toListener =
+    (handler: (context: EventHandlerContext<TContext, z.ZodTypeAny>) => Promise<void> | void, source?: string): EventListener =>
+    async (envelope) => {
+      if (source && envelope.source && envelope.source !== source) {
+        return;
+      }
+      await handler({ ...context, payload: envelope.payload, event: envelope });
+    };
+
+  for (const event of module.events ?? []) {
+    if (event.handler) {
+      unsubscribers.push(bus.subscribe(event, toListener(event.handler)));
+    }
+  }
+
+  for (const subscription of module.subscriptions ?? []) {
+    const { event, source } = subscription.definition;
+    const listener = toListener(subscription.handler, source);
+    unsubscribers.push(
+      subscription.payload
+        ? bus.subscribe({ definition: { name: event }, payload: subscription.payload }, listener)
+        : bus.subscribe(event, listener)
+    );
+  }
+
+  return () => {
+    for (const unsubscribe of unsubscribers.splice(0)) {
+      unsubscribe();
+    }
+  };
+}
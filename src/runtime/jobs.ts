@@ -0,0 +1,81 @@
+import type { z } from 'zod';
+
+import type { DatabaseProvider, JobContext, JobHandlerContext, JobSpec, QueueMessage, QueueProvider } from '../index.js';
+import { isolationLevelOf, runInTransaction } from './transactions.js';
+
+export interface JobProcessorOptions {
+  /** Runs `transactional` jobs in `database.transaction()`; such jobs throw without it. */
+  readonly database?: DatabaseProvider<unknown>;
+}
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+
+/**
+ * Wraps a job handler so queue messages are validated against `job.payload` before the
+ * handler runs. Invalid messages are logged and rethrown so the queue can dead-letter them.
+ * `transactional` jobs run in a transaction that a thrown error rolls back.
+ */
+export function createJobProcessor<TContext extends JobContext, TPayload extends z.ZodTypeAny>(
+  job: JobSpec<TContext, TPayload>,
+  context: TContext,
+  options: JobProcessorOptions = {}
+): (message: QueueMessage<unknown>) => Promise<void> {
+  const { name, transactional } = job.definition;
+
+  return async (message) => {
+    const parsed = job.payload.safeParse(message.payload);
+    if (!parsed.success) {
+      context.logger.error('job payload failed validation', {
+        job: name,
+        messageId: message.id,
+        issues: parsed.error.issues
+      });
+      throw new Error(`Job "${name}" received an invalid payload (message ${message.id}): ${describeIssues(parsed.error)}`);
+    }
+
+    const typedMessage: QueueMessage<z.infer<TPayload>> = { ...message, payload: parsed.data };
+    const invoke = (handlerContext: TContext) =>
+      job.handler({
+        ...handlerContext,
+        payload: parsed.data,
+        message: typedMessage
+      } as JobHandlerContext<TContext, TPayload>);
+
+    if (!transactional) {
+      await invoke(context);
+      return;
+    }
+    if (!options.database?.transaction) {
+      throw new Error(`Job "${name}" is transactional but no database provider with transactions is configured.`);
+    }
+    await runInTransaction(options.database, context, invoke, { isolationLevel: isolationLevelOf(transactional) });
+  };
+}
+
+/** Registers the job's validated handler with a queue. */
+export function processJob<TContext extends JobContext, TPayload extends z.ZodTypeAny>(
+  queue: QueueProvider<unknown>,
+  job: JobSpec<TContext, TPayload>,
+  context: TContext,
+  options: JobProcessorOptions = {}
+): Promise<void> | void {
+  return queue.process(createJobProcessor(job, context, options));
+}
+
+/**
+ * Validates the payload against the job schema before handing it to the queue. The input is
+ * enqueued rather than the parsed output, since the processor parses it again on the way out.
+ */
+export async function enqueueJob<TPayload extends z.ZodTypeAny>(
+  queue: QueueProvider<unknown>,
+  job: JobSpec<any, TPayload>,
+  payload: z.input<TPayload>,
+  options?: { readonly delaySeconds?: number }
+): Promise<string> {
+  const parsed = job.payload.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(`Cannot enqueue job "${job.definition.name}": ${describeIssues(parsed.error)}`);
+  }
+  return queue.enqueue(payload, options);
+}
@@ -0,0 +1,302 @@
+import type {
+  EnvAccessor,
+  EventBus,
+  Logger,
+  ModuleDefinition,
+  ModuleDiagnostic,
+  ModuleEnvAccessor,
+  ModuleLifecycleContext,
+  ModuleLifecycleHook
+} from '../index.js';
+import { createModuleEnvAccessor, loadModuleEnv } from './env.js';
+import type { ServiceContainer } from './services.js';
+
+export type ModuleLifecycleState = 'pending' | 'starting' | 'ready' | 'failed' | 'stopping' | 'stopped';
+
+export interface ModuleHealth {
+  readonly name: string;
+  readonly state: ModuleLifecycleState;
+  readonly error?: string;
+  /** Duration of the last `init` or `dispose` hook. */
+  readonly durationMs?: number;
+}
+
+export interface LifecycleHealth {
+  /** Every module finished `init` and none is stopping. */
+  readonly ready: boolean;
+  /** No module has failed a hook. */
+  readonly healthy: boolean;
+  readonly modules: readonly ModuleHealth[];
+}
+
+export interface LifecyclePlan {
+  /** Module names in `init` order; `dispose` runs in reverse. */
+  readonly order: readonly string[];
+  readonly diagnostics: readonly ModuleDiagnostic[];
+}
+
+export interface LifecyclePlanOptions {
+  /** Services supplied by the host rather than by a module's `manifest.services`. */
+  readonly services?: readonly string[];
+}
+
+export interface LifecycleRunnerOptions extends LifecyclePlanOptions {
+  /** Raw variables; each module's `env` schema is checked against them before any `init` runs. */
+  readonly env: EnvAccessor;
+  readonly logger: Logger;
+  readonly events?: EventBus;
+  /** Started before the first `init` and disposed after the last `dispose`; exposed to hooks as `services`. */
+  readonly container?: ServiceContainer;
+  /** Per-hook timeout in milliseconds. Defaults to 30 seconds. */
+  readonly timeoutMs?: number;
+  /** Cancels whatever hook is running; pending modules are not started. */
+  readonly signal?: AbortSignal;
+  readonly now?: () => Date;
+}
+
+export type LifecycleStartResult =
+  | { readonly ok: true; readonly started: readonly string[] }
+  | {
+      readonly ok: false;
+      readonly diagnostics: readonly ModuleDiagnostic[];
+      /** Modules whose `dispose` ran because a later module failed to start. */
+      readonly rolledBack: readonly string[];
+    };
+
+export interface LifecycleStopResult {
+  readonly stopped: readonly string[];
+  readonly diagnostics: readonly ModuleDiagnostic[];
+}
+
+export interface LifecycleRunner {
+  readonly plan: LifecyclePlan;
+  start(): Promise<LifecycleStartResult>;
+  stop(): Promise<LifecycleStopResult>;
+  health(): LifecycleHealth;
+}
+
+type AnyModule = ModuleDefinition<any, any, any, any, any>;
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Orders modules so that every module comes after the modules it depends on and after the
+ * modules providing the services it needs. Unknown modules, unprovided services, and cycles
+ * are reported as diagnostics; the order then only contains modules that can start.
+ */
+export function planLifecycle(modules: readonly AnyModule[], options: LifecyclePlanOptions = {}): LifecyclePlan {
+  const diagnostics: ModuleDiagnostic[] = [];
+  const names = modules.map((module) => module.manifest.name);
+  const hostServices = new Set(options.services ?? []);
+  const providers = new Map<string, string>();
+
+  for (const name of new Set(names.filter((name, index) => names.indexOf(name) !== index))) {
+    diagnostics.push({ severity: 'error', message: `Module "${name}" is registered more than once.` });
+  }
+
+  for (const module of modules) {
+    const declared = [...(module.manifest.services ?? []), ...(module.services ?? []).map((spec: { definition: { name: string } }) => spec.definition)];
+    for (const service of declared) {
+      const existing = providers.get(service.name);
+      if (existing && existing !== module.manifest.name) {
+        diagnostics.push({
+          severity: 'error',
+          message: `Service "${service.name}" is provided by both "${existing}" and "${module.manifest.name}".`
+        });
+      } else {
+        providers.set(service.name, module.manifest.name);
+      }
+    }
+  }
+
+  const edges = new Map<string, Set<string>>(names.map((name) => [name, new Set<string>()]));
+  for (const module of modules) {
+    const name = module.manifest.name;
+    const dependencies = module.manifest.dependencies ?? {};
+    for (const dependency of dependencies.modules ?? []) {
+      if (!edges.has(dependency)) {
+        diagnostics.push({ severity: 'error', message: `Module "${name}" depends on module "${dependency}", which is not registered.` });
+      } else if (dependency !== name) {
+        edges.get(name)!.add(dependency);
+      }
+    }
+    for (const service of dependencies.services ?? []) {
+      const provider = providers.get(service);
+      if (provider) {
+        if (provider !== name) {
+          edges.get(name)!.add(provider);
+        }
+      } else if (!hostServices.has(service)) {
+        diagnostics.push({ severity: 'error', message: `Module "${name}" requires service "${service}", which no module or host provides.` });
+      }
+    }
+  }
+
+  // Kahn's algorithm, picking ready modules in registration order so the result is stable.
+  const order: string[] = [];
+  const remaining = new Set(names);
+  while (remaining.size > 0) {
+    const next = names.find((name) => remaining.has(name) && [...edges.get(name)!].every((dependency) => !remaining.has(dependency)));
+    if (!next) {
+      break;
+    }
+    order.push(next);
+    remaining.delete(next);
+  }
+  if (remaining.size > 0) {
+    diagnostics.push({ severity: 'error', message: `Module dependencies form a cycle: ${[...remaining].join(', ')}.` });
+  }
+
+  return { order, diagnostics };
+}
+
+/**
+ * Runs one lifecycle hook with a timeout. The hook's `signal` is aborted on timeout or when
+ * the runner is cancelled, so well-behaved hooks can stop their own work.
+ */
+const runHook = async <TEnv extends EnvAccessor>(
+  hook: ModuleLifecycleHook<TEnv>,
+  context: Omit<ModuleLifecycleContext<TEnv>, 'signal'>,
+  timeoutMs: number,
+  parent: AbortSignal | undefined
+): Promise<void> => {
+  const controller = new AbortController();
+  const abortFromParent = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    throw new Error('Lifecycle was cancelled.');
+  }
+  parent?.addEventListener('abort', abortFromParent, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`Hook timed out after ${timeoutMs}ms.`);
+      reject(error);
+      controller.abort(error);
+    }, timeoutMs);
+    controller.signal.addEventListener('abort', () => reject(new Error('Lifecycle was cancelled.')), { once: true });
+  });
+
+  try {
+    await Promise.race([Promise.resolve().then(() => hook({ ...context, signal: controller.signal })), timeout]);
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', abortFromParent);
+  }
+};
+
+/**
+ * Starts and stops a set of modules: `init` in dependency order, `dispose` in reverse. If a
+ * module fails to start, the modules already started are disposed again before `start`
+ * resolves, so a failed startup never leaves half the system running.
+ */
+export function createLifecycleRunner(modules: readonly AnyModule[], options: LifecycleRunnerOptions): LifecycleRunner {
+  const plan = planLifecycle(modules, { services: [...(options.services ?? []), ...(options.container?.names ?? [])] });
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const now = options.now ?? (() => new Date());
+  const byName = new Map(modules.map((module) => [module.manifest.name, module]));
+  const health = new Map<string, ModuleHealth>(modules.map((module) => [module.manifest.name, { name: module.manifest.name, state: 'pending' }]));
+  const started: string[] = [];
+  const envs = new Map<string, ModuleEnvAccessor<any>>();
+
+  const update = (name: string, state: ModuleLifecycleState, extra: Partial<ModuleHealth> = {}) => {
+    const { error: _error, ...previous } = health.get(name)!;
+    health.set(name, { ...previous, ...extra, state });
+  };
+
+  const invoke = async (name: string, kind: 'init' | 'dispose'): Promise<ModuleDiagnostic | undefined> => {
+    const module = byName.get(name)!;
+    const hook = module[kind];
+    if (!hook) {
+      return undefined;
+    }
+    const begin = now().getTime();
+    const logger = options.logger.with({ module: name, hook: kind });
+    try {
+      const env = envs.get(name) ?? createModuleEnvAccessor(options.env.entries(), {});
+      await runHook(hook, { env, logger, events: options.events, services: options.container }, timeoutMs, options.signal);
+      health.set(name, { ...health.get(name)!, durationMs: now().getTime() - begin });
+      return undefined;
+    } catch (error) {
+      const message = describeError(error);
+      logger.error(`module ${kind} failed`, { error: message });
+      update(name, 'failed', { error: message, durationMs: now().getTime() - begin });
+      return { severity: 'error', message: `Module "${name}" ${kind} failed: ${message}` };
+    }
+  };
+
+  const disposeStarted = async (): Promise<LifecycleStopResult> => {
+    const stopped: string[] = [];
+    const diagnostics: ModuleDiagnostic[] = [];
+    // Disposal keeps going after a failure so one broken module cannot strand the others.
+    for (const name of [...started].reverse()) {
+      update(name, 'stopping');
+      const diagnostic = await invoke(name, 'dispose');
+      if (diagnostic) {
+        diagnostics.push(diagnostic);
+      } else {
+        update(name, 'stopped');
+      }
+      stopped.push(name);
+      started.splice(started.indexOf(name), 1);
+    }
+    return { stopped, diagnostics };
+  };
+
+  const start = async (): Promise<LifecycleStartResult> => {
+    if (plan.diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+      return { ok: false, diagnostics: plan.diagnostics, rolledBack: [] };
+    }
+    if (started.length > 0) {
+      throw new Error('Lifecycle runner is already started.');
+    }
+    // Every module's environment is checked up front so one run reports all missing variables.
+    const envDiagnostics: ModuleDiagnostic[] = [];
+    for (const name of plan.order) {
+      const loaded = loadModuleEnv(byName.get(name)!, options.env);
+      if (loaded.ok) {
+        envs.set(name, loaded.env);
+      } else {
+        envDiagnostics.push(...loaded.diagnostics);
+        update(name, 'failed', { error: 'Invalid environment.' });
+      }
+    }
+    if (envDiagnostics.length > 0) {
+      return { ok: false, diagnostics: envDiagnostics, rolledBack: [] };
+    }
+    const services = await options.container?.start();
+    if (services && !services.ok) {
+      return { ok: false, diagnostics: services.diagnostics, rolledBack: [] };
+    }
+
+    for (const name of plan.order) {
+      update(name, 'starting');
+      const diagnostic = await invoke(name, 'init');
+      if (diagnostic) {
+        const rollback = await stop();
+        return { ok: false, diagnostics: [diagnostic, ...rollback.diagnostics], rolledBack: rollback.stopped };
+      }
+      update(name, 'ready');
+      started.push(name);
+    }
+
+    return { ok: true, started: [...started] };
+  };
+
+  const report = (): LifecycleHealth => {
+    const entries = [...health.values()];
+    return {
+      ready: entries.every((entry) => entry.state === 'ready'),
+      healthy: entries.every((entry) => entry.state !== 'failed'),
+      modules: entries
+    };
+  };
+
+  const stop = async (): Promise<LifecycleStopResult> => {
+    const result = await disposeStarted();
+    await options.container?.dispose();
+    return result;
+  };
+
+  return { plan, start, stop, health: report };
+}
@@ -0,0 +1,248 @@
+import type { Logger, LogLevel } from '../index.js';
+import { serializeCause } from './errors.js';
+
+/**
+ * One log line. `time`, `level`, `module`, `requestId`, and `message` always come first, in that
+ * order; bindings and metadata follow with sorted keys and cannot override them.
+ */
+export interface LogRecord {
+  readonly time: string;
+  readonly level: LogLevel;
+  readonly module?: string;
+  readonly requestId?: string;
+  readonly message: string;
+  readonly [field: string]: unknown;
+}
+
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+export interface CreateLoggerOptions {
+  /** Minimum level written. Defaults to `info`. */
+  readonly level?: LogLevel;
+  /** Defaults to NDJSON on stdout. */
+  readonly sink?: LogSink;
+  /**
+   * Key paths replaced with `[redacted]`. A plain key (`password`) matches at any depth, a dotted
+   * path (`headers.authorization`, `user.*.token`) matches from the top of the metadata.
+   * Keys compare case-insensitively. Defaults to `DEFAULT_REDACT_PATHS`.
+   */
+  readonly redact?: readonly string[];
+  /** Bound to every record, e.g. `{ module: manifest.name }`. */
+  readonly bindings?: Record<string, unknown>;
+  readonly now?: () => Date;
+}
+
+export interface StructuredLogger extends Logger {
+  trace(message: string, metadata?: Record<string, unknown>): void;
+  fatal(message: string, metadata?: Record<string, unknown>): void;
+  isLevelEnabled(level: LogLevel): boolean;
+  with(bindings: Record<string, unknown>): StructuredLogger;
+}
+
+export interface CaptureSink extends LogSink {
+  readonly records: readonly LogRecord[];
+  clear(): void;
+}
+
+export interface PrettySinkOptions {
+  /** Defaults to stderr. */
+  readonly write?: (line: string) => void;
+  /** ANSI colors for levels. Defaults to whether stderr is a TTY. */
+  readonly colors?: boolean;
+}
+
+export const DEFAULT_REDACT_PATHS: readonly string[] = ['password', 'secret', 'token', 'accessToken', 'refreshToken', 'apiKey', 'authorization', 'cookie'];
+
+const LOG_LEVELS: readonly LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+const RESERVED_FIELDS = new Set(['time', 'level', 'module', 'requestId', 'message']);
+const REDACTED = '[redacted]';
+const MAX_METADATA_DEPTH = 32;
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  trace: '\u001b[90m',
+  debug: '\u001b[36m',
+  info: '\u001b[32m',
+  warn: '\u001b[33m',
+  error: '\u001b[31m',
+  fatal: '\u001b[35m'
+};
+
+const levelIndex = (level: LogLevel): number => {
+  const index = LOG_LEVELS.indexOf(level);
+  if (index < 0) {
+    throw new Error(`Unknown log level "${level}".`);
+  }
+  return index;
+};
+
+type Redactor = (value: unknown) => unknown;
+
+const createRedactor = (paths: readonly string[]): Redactor => {
+  const anywhere = new Set(paths.filter((path) => !path.includes('.')).map((path) => path.toLowerCase()));
+  const rooted = paths.filter((path) => path.includes('.')).map((path) => path.toLowerCase().split('.'));
+
+  const matchesRooted = (trail: readonly string[]) =>
+    rooted.some((segments) => segments.length === trail.length && segments.every((segment, index) => segment === '*' || segment === trail[index]));
+
+  const visit = (value: unknown, trail: readonly string[]): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((entry) => visit(entry, trail));
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => {
+        const next = [...trail, key.toLowerCase()];
+        return [key, anywhere.has(next[next.length - 1]) || matchesRooted(next) ? REDACTED : visit(entry, next)];
+      })
+    );
+  };
+
+  return (value) => visit(value, []);
+};
+
+// Only the ancestors of a value count as a cycle, so an object referenced twice is written twice.
+// Errors go through `serializeCause`, which keeps their `cause` chain short.
+const serializeMetadata = (fields: Record<string, unknown>): Record<string, unknown> => {
+  const ancestors = new Set<object>();
+
+  const visit = (value: unknown, depth: number): unknown => {
+    if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (typeof value !== 'object') {
+      return undefined;
+    }
+    if (value instanceof Error) {
+      return serializeCause(value, { includeStack: true });
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (ancestors.has(value)) {
+      return '[circular]';
+    }
+    if (depth >= MAX_METADATA_DEPTH) {
+      return '[truncated]';
+    }
+    ancestors.add(value);
+    const serialized = Array.isArray(value)
+      ? value.map((entry) => visit(entry, depth + 1) ?? null)
+      : Object.fromEntries(
+          Object.entries(value)
+            .map(([key, entry]) => [key, visit(entry, depth + 1)] as const)
+            .filter(([, entry]) => entry !== undefined)
+        );
+    ancestors.delete(value);
+    return serialized;
+  };
+
+  return visit(fields, 0) as Record<string, unknown>;
+};
+
+const sortedFields = (fields: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.keys(fields)
+      .filter((key) => !RESERVED_FIELDS.has(key) && fields[key] !== undefined)
+      .sort()
+      .map((key) => [key, fields[key]])
+  );
+
+/** Writes each record as one line of JSON (NDJSON). */
+export function createJsonSink(write: (line: string) => void = (line) => process.stdout.write(line)): LogSink {
+  return { write: (record) => write(`${JSON.stringify(record)}\n`) };
+}
+
+/** Human-readable single-line output for local development: `12:00:00.000 INFO  [accounts req-1] message key=value`. */
+export function createPrettySink(options: PrettySinkOptions = {}): LogSink {
+  const write = options.write ?? ((line: string) => process.stderr.write(line));
+  const colors = options.colors ?? Boolean(process.stderr.isTTY);
+
+  return {
+    write: (record) => {
+      const { time, level, module, requestId, message, ...fields } = record;
+      const label = level.toUpperCase().padEnd(5);
+      const scope = [module, requestId].filter((part) => part !== undefined).join(' ');
+      const extra = Object.entries(fields)
+        .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+        .join(' ');
+      const parts = [
+        time.slice(11, 23),
+        colors ? `${LEVEL_COLORS[level]}${label}\u001b[0m` : label,
+        scope ? `[${scope}]` : undefined,
+        message,
+        extra || undefined
+      ];
+      write(`${parts.filter((part) => part !== undefined).join(' ')}\n`);
+    }
+  };
+}
+
+/** Keeps records in memory for assertions. */
+export function createCaptureSink(): CaptureSink {
+  const records: LogRecord[] = [];
+  return {
+    records,
+    write: (record) => {
+      records.push(record);
+    },
+    clear: () => {
+      records.length = 0;
+    }
+  };
+}
+
+/**
+ * Reference `Logger`: level filtering, child loggers through `with()`, and one JSON record per
+ * call with stable keys. `module` and `requestId` bindings are lifted into the record's leading
+ * fields; error values are serialized with their stack, and `redact` paths are masked.
+ */
+export function createLogger(options: CreateLoggerOptions = {}): StructuredLogger {
+  const level = options.level ?? 'info';
+  const threshold = levelIndex(level);
+  const sink = options.sink ?? createJsonSink();
+  const now = options.now ?? (() => new Date());
+  const redact = createRedactor(options.redact ?? DEFAULT_REDACT_PATHS);
+
+  const build = (bindings: Record<string, unknown>): StructuredLogger => {
+    const isLevelEnabled = (entryLevel: LogLevel) => levelIndex(entryLevel) >= threshold;
+
+    const log = (entryLevel: LogLevel, message: string, metadata?: Record<string, unknown>) => {
+      if (!isLevelEnabled(entryLevel)) {
+        return;
+      }
+      const merged = { ...bindings, ...metadata };
+      const fields = redact(serializeMetadata(sortedFields(merged))) as Record<string, unknown>;
+      const record: LogRecord = {
+        time: now().toISOString(),
+        level: entryLevel,
+        ...(typeof merged.module === 'string' ? { module: merged.module } : {}),
+        ...(typeof merged.requestId === 'string' ? { requestId: merged.requestId } : {}),
+        message,
+        ...fields
+      };
+      sink.write(record);
+    };
+
+    return {
+      level,
+      log,
+      trace: (message, metadata) => log('trace', message, metadata),
+      debug: (message, metadata) => log('debug', message, metadata),
+      info: (message, metadata) => log('info', message, metadata),
+      warn: (message, metadata) => log('warn', message, metadata),
+      error: (message, metadata) => log('error', message, metadata),
+      fatal: (message, metadata) => log('fatal', message, metadata),
+      isLevelEnabled,
+      with: (extra) => build({ ...bindings, ...extra })
+    };
+  };
+
+  return build({ ...options.bindings });
+}
@@ -0,0 +1,69 @@
+import type { MiddlewareSpec, ModuleDefinition, RequestContext, RouteHandlerResult, RouteResponses, RouteSpec } from '../index.js';
+
+type AnyMiddleware = MiddlewareSpec<any, any>;
+type AnyResult = RouteHandlerResult<RouteResponses>;
+
+/**
+ * Middleware applied to a route, outermost first: module-scoped module middleware in declaration
+ * order, then module middleware the route names in `definition.middleware`, then the route's own.
+ * Module middleware with `scope: 'route'` only runs where a route names it, and a route entry
+ * replaces the module entry of the same name. Names that match no middleware throw.
+ */
+export function resolveMiddleware(
+  module: Pick<ModuleDefinition<any, any, any, any>, 'middleware'>,
+  route: Pick<RouteSpec<any, any, any, any, any>, 'definition' | 'middleware'>
+): AnyMiddleware[] {
+  const own = (route.middleware ?? []).filter(
+    (middleware, index, all) => all.findIndex((entry) => entry.definition.name === middleware.definition.name) === index
+  );
+  const ownNames = new Set(own.map((middleware) => middleware.definition.name));
+  const moduleEntries = new Map((module.middleware ?? []).map((middleware: AnyMiddleware) => [middleware.definition.name, middleware]));
+  const named = new Set<string>();
+
+  for (const name of route.definition.middleware ?? []) {
+    if (!ownNames.has(name) && !moduleEntries.has(name)) {
+      throw new Error(`Route "${route.definition.name}" lists middleware "${name}", which is neither a module nor a route middleware.`);
+    }
+    named.add(name);
+  }
+
+  const inherited = [...moduleEntries.values()].filter(
+    (middleware) => (middleware.definition.scope ?? 'module') === 'module' && !ownNames.has(middleware.definition.name)
+  );
+  const requested = [...named].flatMap((name) => {
+    const middleware = moduleEntries.get(name);
+    return middleware && !ownNames.has(name) && !inherited.includes(middleware) ? [middleware] : [];
+  });
+  return [...inherited, ...requested, ...own];
+}
+
+/**
+ * Runs `chain` around `terminal`. Each middleware may short-circuit by returning a result
+ * without calling `next`, or pass additions to `next` that are merged into the context
+ * seen by everything after it.
+ */
+export async function runMiddleware<TContext extends RequestContext>(
+  chain: readonly AnyMiddleware[],
+  context: TContext,
+  terminal: (context: TContext) => Promise<AnyResult> | AnyResult
+): Promise<AnyResult> {
+  const invoke = async (index: number, current: TContext): Promise<AnyResult> => {
+    const middleware = chain[index];
+    if (!middleware) {
+      return terminal(current);
+    }
+
+    let called = false;
+    const next = (additions?: object): Promise<AnyResult> => {
+      if (called) {
+        return Promise.reject(new Error(`Middleware "${middleware.definition.name}" called next() more than once.`));
+      }
+      called = true;
+      return invoke(index + 1, additions ? { ...current, ...additions } : current);
+    };
+
+    return middleware.handler(current, next);
+  };
+
+  return invoke(0, context);
+}
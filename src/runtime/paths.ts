@@ -0,0 +1,71 @@
+export type PathSegment =
+  | { readonly kind: 'static'; readonly value: string }
+  | { readonly kind: 'param'; readonly name: string };
+
+export interface PathPattern {
+  readonly pattern: string;
+  readonly segments: readonly PathSegment[];
+  readonly paramNames: readonly string[];
+}
+
+const splitPath = (path: string): string[] => path.split('/').filter((segment) => segment.length > 0);
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+export function parsePathPattern(pattern: string): PathPattern {
+  const segments: PathSegment[] = splitPath(pattern).map((segment) =>
+    segment.startsWith(':') && segment.length > 1
+      ? { kind: 'param', name: segment.slice(1) }
+      : { kind: 'static', value: segment }
+  );
+
+  return {
+    pattern,
+    segments,
+    paramNames: segments.flatMap((segment) => (segment.kind === 'param' ? [segment.name] : []))
+  };
+}
+
+export function matchPath(pattern: PathPattern, path: string): Record<string, string> | undefined {
+  const parts = splitPath(path);
+  if (parts.length !== pattern.segments.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < parts.length; index += 1) {
+    const segment = pattern.segments[index];
+    const part = parts[index];
+    if (segment.kind === 'static') {
+      if (segment.value !== part) {
+        return undefined;
+      }
+    } else {
+      params[segment.name] = safeDecode(part);
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Orders patterns so that static segments win over parameters at the first
+ * position where two patterns differ (`/accounts/me` before `/accounts/:id`).
+ */
+export function comparePathSpecificity(left: PathPattern, right: PathPattern): number {
+  const length = Math.min(left.segments.length, right.segments.length);
+  for (let index = 0; index < length; index += 1) {
+    const a = left.segments[index].kind === 'static' ? 0 : 1;
+    const b = right.segments[index].kind === 'static' ? 0 : 1;
+    if (a !== b) {
+      return a - b;
+    }
+  }
+  return right.segments.length - left.segments.length;
+}
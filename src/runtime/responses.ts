@@ -0,0 +1,60 @@
+import type { z } from 'zod';
+
+import type { RouteDefinition, RouteResponseMap, RouteResponses, RouteResponseSchema } from '../index.js';
+
+export interface ResolvedResponse {
+  readonly status: number;
+  readonly body?: z.ZodTypeAny;
+  readonly headers?: z.ZodTypeAny;
+}
+
+const isZodSchema = (value: unknown): value is z.ZodTypeAny =>
+  typeof value === 'object' && value !== null && typeof (value as z.ZodTypeAny).safeParse === 'function';
+
+export const isResponseMap = (response: RouteResponses | undefined): response is RouteResponseMap =>
+  typeof response === 'object' && response !== null && !isZodSchema(response);
+
+const toResolved = (status: number, entry: z.ZodTypeAny | RouteResponseSchema): ResolvedResponse =>
+  isZodSchema(entry) ? { status, body: entry } : { status, body: entry.body, headers: entry.headers };
+
+/** Every declared response, ordered by status. A single schema is reported under `output.status` (default 200). */
+export const listResponses = (response: RouteResponses | undefined, definition?: Pick<RouteDefinition, 'output'>): ResolvedResponse[] => {
+  if (!response) {
+    return [];
+  }
+  if (!isResponseMap(response)) {
+    return [{ status: definition?.output?.status ?? 200, body: response }];
+  }
+  return Object.entries(response)
+    .map(([status, entry]) => toResolved(Number(status), entry))
+    .sort((left, right) => left.status - right.status);
+};
+
+/**
+ * Status used when a handler omits `status`: the route's only 2xx response for maps,
+ * otherwise `output.status`, otherwise 200.
+ */
+export const defaultStatus = (response: RouteResponses | undefined, definition: Pick<RouteDefinition, 'output'>): number => {
+  if (isResponseMap(response)) {
+    const success = listResponses(response).filter((entry) => entry.status >= 200 && entry.status < 300);
+    if (success.length === 1) {
+      return success[0].status;
+    }
+  }
+  return definition.output?.status ?? 200;
+};
+
+/**
+ * Schemas for a returned status. A single schema applies to every status; a map only to the
+ * statuses it declares, so `undefined` means the status is not part of the contract.
+ */
+export const responseForStatus = (
+  response: RouteResponses | undefined,
+  status: number
+): ResolvedResponse | undefined => {
+  if (!isResponseMap(response)) {
+    return { status, body: response };
+  }
+  const entry = response[status];
+  return entry ? toResolved(status, entry) : undefined;
+};
@@ -0,0 +1,237 @@
+import type {
+  EnvAccessor,
+  Logger,
+  ModuleDefinition,
+  ModuleDiagnostic,
+  RequestContext,
+  ServiceResolver,
+  ServiceSpec
+} from '../index.js';
+
+export interface ServiceContainerOptions {
+  readonly env: EnvAccessor;
+  readonly logger: Logger;
+  readonly now?: () => Date;
+  /** Instances supplied by the host (database clients, mailers, …), keyed by service name. */
+  readonly provided?: Record<string, unknown>;
+}
+
+export type ServiceStartResult = { readonly ok: true } | { readonly ok: false; readonly diagnostics: readonly ModuleDiagnostic[] };
+
+export interface RequestServices {
+  readonly services: ServiceResolver;
+  /** Disposes the request-scoped instances created for this request. */
+  dispose(): Promise<void>;
+}
+
+export interface ServiceContainer extends ServiceResolver {
+  /** Every resolvable service name: module-provided and host-provided. */
+  readonly names: readonly string[];
+  /** Problems found while registering: duplicates, missing providers, cycles, scope mismatches. */
+  readonly diagnostics: readonly ModuleDiagnostic[];
+  /** Creates every singleton in dependency order. Fails without creating anything if `diagnostics` has errors. */
+  start(): Promise<ServiceStartResult>;
+  /** Creates the request-scoped services for one request on top of the started singletons. */
+  forRequest(context: RequestContext): Promise<RequestServices>;
+  /** Disposes singletons in reverse creation order. */
+  dispose(): Promise<void>;
+}
+
+interface Registration {
+  readonly spec: ServiceSpec<unknown, string>;
+  readonly module: string;
+  readonly dependencies: readonly string[];
+}
+
+type AnyModule = ModuleDefinition<any, any, any, any>;
+
+const nameOf = (service: ServiceSpec<any, any> | string): string => (typeof service === 'string' ? service : service.definition.name);
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const createResolver = (lookup: (name: string) => { found: boolean; value?: unknown }, label: string): ServiceResolver => ({
+  get: (service: ServiceSpec<unknown, any> | string) => {
+    const name = nameOf(service);
+    const entry = lookup(name);
+    if (!entry.found) {
+      throw new Error(`Service "${name}" is not available ${label}.`);
+    }
+    return entry.value;
+  },
+  has: (name: string) => lookup(name).found
+}) as ServiceResolver;
+
+// Depth-first topological order; `visiting` tracks the current path so a cycle can be reported in full.
+const orderServices = (registrations: ReadonlyMap<string, Registration>): { order: string[]; cycles: string[][] } => {
+  const order: string[] = [];
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const visiting: string[] = [];
+
+  const visit = (name: string) => {
+    if (done.has(name)) {
+      return;
+    }
+    const index = visiting.indexOf(name);
+    if (index !== -1) {
+      cycles.push([...visiting.slice(index), name]);
+      return;
+    }
+    const registration = registrations.get(name);
+    if (!registration) {
+      return;
+    }
+    visiting.push(name);
+    registration.dependencies.forEach(visit);
+    visiting.pop();
+    done.add(name);
+    order.push(name);
+  };
+
+  [...registrations.keys()].forEach(visit);
+  return { order, cycles };
+};
+
+/**
+ * Collects the `services` of every module into one container. Modules consume each other's
+ * services through `RequestContext.services` / `ModuleLifecycleContext.services`, passing the
+ * provider's `ServiceSpec` to `get` for a typed instance.
+ */
+export function createServiceContainer(modules: readonly AnyModule[], options: ServiceContainerOptions): ServiceContainer {
+  const now = options.now ?? (() => new Date());
+  const provided = options.provided ?? {};
+  const diagnostics: ModuleDiagnostic[] = [];
+  const registrations = new Map<string, Registration>();
+
+  for (const module of modules) {
+    for (const spec of (module.services ?? []) as readonly ServiceSpec<unknown, string>[]) {
+      const name = spec.definition.name;
+      const existing = registrations.get(name);
+      if (existing || name in provided) {
+        diagnostics.push({
+          severity: 'error',
+          message: `Service "${name}" is provided by both "${existing?.module ?? 'the host'}" and "${module.manifest.name}".`
+        });
+        continue;
+      }
+      registrations.set(name, { spec, module: module.manifest.name, dependencies: (spec.dependencies ?? []).map(nameOf) });
+    }
+  }
+
+  const available = (name: string) => registrations.has(name) || name in provided;
+
+  for (const registration of registrations.values()) {
+    const { spec } = registration;
+    for (const dependency of registration.dependencies) {
+      const target = registrations.get(dependency);
+      if (!available(dependency)) {
+        diagnostics.push({
+          severity: 'error',
+          message: `Service "${spec.definition.name}" (${registration.module}) depends on "${dependency}", which no module or host provides.`
+        });
+      } else if (target && (spec.definition.scope ?? 'singleton') === 'singleton' && target.spec.definition.scope === 'request') {
+        diagnostics.push({
+          severity: 'error',
+          message: `Singleton service "${spec.definition.name}" cannot depend on request-scoped service "${dependency}".`
+        });
+      }
+    }
+  }
+
+  for (const module of modules) {
+    for (const service of module.manifest.dependencies?.services ?? []) {
+      if (!available(service)) {
+        diagnostics.push({ severity: 'error', message: `Module "${module.manifest.name}" requires service "${service}", which no module or host provides.` });
+      }
+    }
+  }
+
+  const { order, cycles } = orderServices(registrations);
+  for (const cycle of cycles) {
+    diagnostics.push({ severity: 'error', message: `Service dependencies form a cycle: ${cycle.join(' -> ')}.` });
+  }
+
+  const singletons = new Map<string, unknown>(Object.entries(provided));
+  const created: string[] = [];
+
+  const resolver = createResolver((name) => ({ found: singletons.has(name), value: singletons.get(name) }), 'before the container has started');
+
+  const dispose = async () => {
+    for (const name of created.splice(0).reverse()) {
+      const registration = registrations.get(name)!;
+      try {
+        await registration.spec.dispose?.(singletons.get(name));
+      } catch (error) {
+        options.logger.error('service dispose failed', { service: name, error: describeError(error) });
+      }
+      singletons.delete(name);
+    }
+  };
+
+  const start = async (): Promise<ServiceStartResult> => {
+    if (diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+      return { ok: false, diagnostics };
+    }
+    for (const name of order) {
+      const { spec, module } = registrations.get(name)!;
+      if (spec.definition.scope === 'request' || singletons.has(name)) {
+        continue;
+      }
+      try {
+        singletons.set(
+          name,
+          await spec.factory({ env: options.env, logger: options.logger.with({ module, service: name }), now, services: resolver })
+        );
+        created.push(name);
+      } catch (error) {
+        await dispose();
+        return { ok: false, diagnostics: [{ severity: 'error', message: `Service "${name}" (${module}) failed to start: ${describeError(error)}` }] };
+      }
+    }
+    return { ok: true };
+  };
+
+  const forRequest = async (context: RequestContext): Promise<RequestServices> => {
+    const scoped = new Map<string, unknown>();
+    const scopedCreated: string[] = [];
+    const lookup = (name: string) =>
+      scoped.has(name) ? { found: true, value: scoped.get(name) } : { found: singletons.has(name), value: singletons.get(name) };
+    const services = createResolver(lookup, 'in this request');
+
+    const disposeScoped = async () => {
+      for (const name of scopedCreated.splice(0).reverse()) {
+        try {
+          await registrations.get(name)!.spec.dispose?.(scoped.get(name));
+        } catch (error) {
+          context.logger.error('service dispose failed', { service: name, error: describeError(error) });
+        }
+      }
+    };
+
+    for (const name of order) {
+      const { spec, module } = registrations.get(name)!;
+      if (spec.definition.scope !== 'request') {
+        continue;
+      }
+      try {
+        scoped.set(name, await spec.factory({ env: options.env, logger: context.logger.with({ module, service: name }), now: context.now, services, request: context }));
+        scopedCreated.push(name);
+      } catch (error) {
+        await disposeScoped();
+        throw error;
+      }
+    }
+
+    return { services, dispose: disposeScoped };
+  };
+
+  return {
+    names: [...new Set([...Object.keys(provided), ...registrations.keys()])],
+    diagnostics,
+    get: resolver.get,
+    has: resolver.has,
+    start,
+    forRequest,
+    dispose
+  };
+}
@@ -0,0 +1,502 @@
+import type {
+  AuthProvider,
+  AuthSession,
+  CacheProvider,
+  CreateSessionInput,
+  CsrfCheckRequest,
+  PermissionCheckResult,
+  RequestContext,
+  SSRContext
+} from '../index.js';
+
+type AuthContext = RequestContext | SSRContext;
+
+/** What a `SessionStore` keeps per session id. */
+export interface SessionRecord<TData extends Record<string, unknown> = Record<string, unknown>> {
+  readonly session: AuthSession<TData>;
+  /** Lifetime that sliding renewal extends the session by; absent for a fixed `expiresAt`. */
+  readonly ttlSeconds?: number;
+  readonly csrfToken: string;
+}
+
+export interface SessionStore<TData extends Record<string, unknown> = Record<string, unknown>> {
+  get(id: string): Promise<SessionRecord<TData> | undefined> | SessionRecord<TData> | undefined;
+  /** `ttlSeconds` is the time left until `session.expiresAt`, for stores that evict entries themselves. */
+  set(record: SessionRecord<TData>, ttlSeconds?: number): Promise<void> | void;
+  delete(id: string): Promise<void> | void;
+}
+
+export interface MemorySessionStore<TData extends Record<string, unknown> = Record<string, unknown>> extends SessionStore<TData> {
+  readonly records: ReadonlyMap<string, SessionRecord<TData>>;
+}
+
+export interface CacheSessionStoreOptions {
+  /** Defaults to `session:`. */
+  readonly prefix?: string;
+}
+
+export interface SessionCookieOptions {
+  /** Signed session id cookie. Defaults to `sid`. */
+  readonly name?: string;
+  /** CSRF token cookie, readable by client scripts. Defaults to `csrf`; a `__Host-` name keeps subdomains from setting it. */
+  readonly csrfName?: string;
+  /** Defaults to `/`. */
+  readonly path?: string;
+  readonly domain?: string;
+  /** Defaults to `true`; `sameSite: 'none'` requires it. */
+  readonly secure?: boolean;
+  /** Defaults to `lax`. */
+  readonly sameSite?: 'strict' | 'lax' | 'none';
+}
+
+/** How the provider reaches the host's request cookies and response headers. */
+export interface SessionCookieAccess {
+  read(context: AuthContext): Record<string, string>;
+  /** Adds one `Set-Cookie` header to the response. */
+  write(context: AuthContext, setCookie: string): void;
+}
+
+export interface SessionAuthOptions<TData extends Record<string, unknown> = Record<string, unknown>> {
+  /** HMAC keys for the session cookie. The first one signs and all of them verify, so keys can be rotated. */
+  readonly secret: string | readonly string[];
+  /** Defaults to `createMemorySessionStore()`. */
+  readonly store?: SessionStore<TData>;
+  /** Lifetime of sessions created without `expiresInSeconds` or `expiresAt`. Defaults to one day. */
+  readonly expiresInSeconds?: number;
+  /** Extends a session by its lifetime once less than half of it is left. Defaults to `true`. */
+  readonly sliding?: boolean;
+  readonly cookie?: SessionCookieOptions;
+  /**
+   * Defaults to `SSRContext.cookies` or the `cookie` header of `context.request`, and to
+   * `appendHeader`, `headers.append`, or `header` on `context.reply`.
+   */
+  readonly cookies?: SessionCookieAccess;
+  /** Request header that must echo the CSRF cookie. Defaults to `x-csrf-token`. */
+  readonly csrfHeader?: string;
+  /** Form field checked when the header is absent. Defaults to `_csrf`. */
+  readonly csrfField?: string;
+  /** The session id is rotated when this value changes. Defaults to `data.roles` and `data.permissions`. */
+  readonly privileges?: (session: AuthSession<TData>) => unknown;
+  /** Permissions for `verifyPermissions`. Defaults to `session.data.permissions` when it is a string array. */
+  readonly getPermissions?: (session: AuthSession<TData>) => readonly string[];
+}
+
+export interface SessionAuth<TData extends Record<string, unknown> = Record<string, unknown>> extends AuthProvider<AuthSession<TData>> {
+  readonly store: SessionStore<TData>;
+  getSession(context: AuthContext): Promise<AuthSession<TData> | null>;
+  createSession(input: CreateSessionInput<TData>, context: AuthContext): Promise<AuthSession<TData>>;
+  invalidateSession(sessionId: string, context: AuthContext): Promise<void>;
+  getCsrfToken(context: AuthContext): Promise<string>;
+  verifyCsrfToken(context: AuthContext, request: CsrfCheckRequest): Promise<PermissionCheckResult>;
+  verifyPermissions(context: AuthContext, permissions: readonly string[]): Promise<PermissionCheckResult>;
+  /** Replaces the current session's data, rotating its id when `privileges` change. */
+  updateSession(context: AuthContext, data: TData): Promise<AuthSession<TData> | null>;
+  /** Moves the current session to a new id and CSRF token; the old id stops working. */
+  rotateSession(context: AuthContext): Promise<AuthSession<TData> | null>;
+}
+
+interface StoredSessionRecord {
+  readonly session: {
+    readonly id: string;
+    readonly userId?: string;
+    readonly data: unknown;
+    readonly createdAt: string;
+    readonly expiresAt?: string;
+  };
+  readonly ttlSeconds?: number;
+  readonly csrfToken: string;
+}
+
+const DEFAULT_EXPIRES_IN_SECONDS = 24 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const randomToken = (): string => toBase64Url(globalThis.crypto.getRandomValues(new Uint8Array(32)));
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+
+const defaultPrivileges = (session: AuthSession<unknown>): unknown => {
+  const data = session.data as { roles?: unknown; permissions?: unknown } | undefined;
+  return { roles: stringList(data?.roles).sort(), permissions: stringList(data?.permissions).sort() };
+};
+
+const defaultPermissions = (session: AuthSession<unknown>): readonly string[] =>
+  stringList((session.data as { permissions?: unknown } | undefined)?.permissions);
+
+// Visits every character, so the time taken does not reveal how long a matching prefix was.
+const safeEqual = (left: string, right: string): boolean => {
+  if (left.length !== right.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    difference |= left.charCodeAt(index) ^ right.charCodeAt(index);
+  }
+  return difference === 0;
+};
+
+const parseCookieHeader = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const pair of (header ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    if (!(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  }
+  return cookies;
+};
+
+const cookieHeaderOf = (headers: unknown): string | undefined => {
+  if (typeof headers !== 'object' || headers === null) {
+    return undefined;
+  }
+  const value =
+    typeof (headers as { get?: unknown }).get === 'function'
+      ? (headers as { get(name: string): string | null }).get('cookie')
+      : (headers as Record<string, unknown>).cookie;
+  if (Array.isArray(value)) {
+    return value.join('; ');
+  }
+  return typeof value === 'string' ? value : undefined;
+};
+
+interface ReplyLike {
+  readonly appendHeader?: (name: string, value: string) => unknown;
+  readonly header?: (name: string, value: string) => unknown;
+  readonly headers?: { readonly append?: (name: string, value: string) => unknown };
+}
+
+const defaultCookieAccess: SessionCookieAccess = {
+  read: (context) => {
+    if ('cookies' in context && typeof context.cookies === 'object' && context.cookies !== null) {
+      return context.cookies;
+    }
+    const request = (context as { readonly request?: unknown }).request;
+    return parseCookieHeader(cookieHeaderOf(typeof request === 'object' && request !== null ? (request as { headers?: unknown }).headers : undefined));
+  },
+  write: (context, setCookie) => {
+    const reply = (context as { readonly reply?: unknown }).reply as ReplyLike | undefined;
+    // Checked in this order because Express' `header()` replaces an earlier Set-Cookie.
+    if (typeof reply?.appendHeader === 'function') {
+      reply.appendHeader('set-cookie', setCookie);
+    } else if (typeof reply?.headers?.append === 'function') {
+      reply.headers.append('set-cookie', setCookie);
+    } else if (typeof reply?.header === 'function') {
+      reply.header('set-cookie', setCookie);
+    } else {
+      throw new Error('Cannot set the session cookie on this context; pass `cookies` to createSessionAuth.');
+    }
+  }
+};
+
+const toStored = (record: SessionRecord): StoredSessionRecord => ({
+  ...record,
+  session: {
+    ...record.session,
+    createdAt: record.session.createdAt.toISOString(),
+    expiresAt: record.session.expiresAt?.toISOString()
+  }
+});
+
+const fromStored = <TData extends Record<string, unknown>>(stored: StoredSessionRecord): SessionRecord<TData> => ({
+  ...stored,
+  session: {
+    ...stored.session,
+    data: stored.session.data as TData,
+    createdAt: new Date(stored.session.createdAt),
+    expiresAt: stored.session.expiresAt !== undefined ? new Date(stored.session.expiresAt) : undefined
+  }
+});
+
+/** Keeps sessions in a `Map`; expired entries are removed when they are next read. */
+export function createMemorySessionStore<TData extends Record<string, unknown> = Record<string, unknown>>(): MemorySessionStore<TData> {
+  const records = new Map<string, SessionRecord<TData>>();
+  return {
+    records,
+    get: (id) => records.get(id),
+    set: (record) => {
+      records.set(record.session.id, record);
+    },
+    delete: (id) => {
+      records.delete(id);
+    }
+  };
+}
+
+/** Keeps sessions in any `CacheProvider` as JSON-safe values, evicted by the cache's own TTL. */
+export function createCacheSessionStore<TData extends Record<string, unknown> = Record<string, unknown>>(
+  cache: CacheProvider<string, unknown>,
+  options: CacheSessionStoreOptions = {}
+): SessionStore<TData> {
+  const prefix = options.prefix ?? 'session:';
+  return {
+    get: async (id) => {
+      const stored = (await cache.get(`${prefix}${id}`)) as StoredSessionRecord | undefined;
+      return stored ? fromStored<TData>(stored) : undefined;
+    },
+    set: (record, ttlSeconds) => cache.set(`${prefix}${record.session.id}`, toStored(record), ttlSeconds !== undefined ? { ttlSeconds } : undefined),
+    delete: (id) => cache.delete(`${prefix}${id}`)
+  };
+}
+
+/**
+ * Reference `AuthProvider` for cookie sessions. The session id travels in an HMAC-signed,
+ * HttpOnly cookie and the session itself lives in `store`. Expiry is measured with
+ * `context.now()`, sliding sessions are extended once half their lifetime has passed, and the
+ * id is rotated on sign-in and whenever `privileges` change. Unsafe requests must send the signed
+ * `csrfName` cookie back in `csrfHeader` or `csrfField` (double-submit), signed in or not; with a
+ * session, the token must also be that session's. Signed-out requests are only as safe as the
+ * cookie itself, so hosts with untrusted sibling subdomains should use `__Host-` cookie names.
+ */
+export function createSessionAuth<TData extends Record<string, unknown> = Record<string, unknown>>(options: SessionAuthOptions<TData>): SessionAuth<TData> {
+  const secrets = typeof options.secret === 'string' ? [options.secret] : [...options.secret];
+  if (secrets.length === 0 || secrets.some((secret) => secret.length === 0)) {
+    throw new Error('createSessionAuth requires at least one non-empty secret.');
+  }
+  const cookie = {
+    name: options.cookie?.name ?? 'sid',
+    csrfName: options.cookie?.csrfName ?? 'csrf',
+    path: options.cookie?.path ?? '/',
+    domain: options.cookie?.domain,
+    secure: options.cookie?.secure ?? true,
+    sameSite: options.cookie?.sameSite ?? 'lax'
+  };
+  if (cookie.sameSite === 'none' && !cookie.secure) {
+    throw new Error('Session cookies with sameSite "none" must be secure.');
+  }
+  // Browsers drop `__Host-` cookies that are not secure, path-wide, and host-only.
+  if ([cookie.name, cookie.csrfName].some((name) => name.startsWith('__Host-')) && (!cookie.secure || cookie.path !== '/' || cookie.domain)) {
+    throw new Error('Session cookies named "__Host-..." must be secure, use path "/", and set no domain.');
+  }
+  const store = options.store ?? createMemorySessionStore<TData>();
+  const access = options.cookies ?? defaultCookieAccess;
+  const defaultTtl = options.expiresInSeconds ?? DEFAULT_EXPIRES_IN_SECONDS;
+  const sliding = options.sliding ?? true;
+  const csrfHeader = (options.csrfHeader ?? 'x-csrf-token').toLowerCase();
+  const csrfField = options.csrfField ?? '_csrf';
+  const privileges = options.privileges ?? defaultPrivileges;
+  const getPermissions = options.getPermissions ?? defaultPermissions;
+
+  // Sessions issued or ended during a request, which the request's own cookies do not reflect yet.
+  // Keyed by the host request object, which survives the context being spread for handlers.
+  const issued = new WeakMap<object, string | null>();
+  const requestKey = (context: AuthContext): object => {
+    const request = (context as { readonly request?: unknown }).request;
+    return typeof request === 'object' && request !== null ? request : context;
+  };
+
+  // WebCrypto rather than `node:crypto`, so the package entry stays loadable in browsers.
+  let keys: Promise<CryptoKey[]> | undefined;
+  const signingKeys = () =>
+    (keys ??= Promise.all(
+      secrets.map((secret) => globalThis.crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']))
+    ));
+
+  const hmac = async (key: CryptoKey, value: string) =>
+    toBase64Url(new Uint8Array(await globalThis.crypto.subtle.sign('HMAC', key, encoder.encode(value))));
+
+  const sign = async (value: string) => `${value}.${await hmac((await signingKeys())[0], value)}`;
+
+  const unsign = async (signed: string | undefined): Promise<string | undefined> => {
+    const separator = signed?.lastIndexOf('.') ?? -1;
+    if (!signed || separator <= 0) {
+      return undefined;
+    }
+    const value = signed.slice(0, separator);
+    const signature = signed.slice(separator + 1);
+    for (const key of await signingKeys()) {
+      if (safeEqual(await hmac(key, value), signature)) {
+        return value;
+      }
+    }
+    return undefined;
+  };
+
+  const serialize = (name: string, value: string, maxAgeSeconds: number | undefined, httpOnly: boolean): string =>
+    [
+      `${name}=${value}`,
+      `Path=${cookie.path}`,
+      cookie.domain ? `Domain=${cookie.domain}` : undefined,
+      maxAgeSeconds !== undefined ? `Max-Age=${maxAgeSeconds}` : undefined,
+      httpOnly ? 'HttpOnly' : undefined,
+      cookie.secure ? 'Secure' : undefined,
+      `SameSite=${cookie.sameSite[0].toUpperCase()}${cookie.sameSite.slice(1)}`
+    ]
+      .filter((part) => part !== undefined)
+      .join('; ');
+
+  const secondsLeft = (session: AuthSession<TData>, context: AuthContext): number | undefined =>
+    session.expiresAt ? Math.max(0, Math.ceil((session.expiresAt.getTime() - context.now().getTime()) / 1000)) : undefined;
+
+  const writeCookies = async (context: AuthContext, record: SessionRecord<TData>) => {
+    const maxAge = secondsLeft(record.session, context);
+    access.write(context, serialize(cookie.name, await sign(record.session.id), maxAge, true));
+    access.write(context, serialize(cookie.csrfName, await sign(record.csrfToken), maxAge, false));
+  };
+
+  const issue = async (context: AuthContext, record: SessionRecord<TData>) => {
+    await store.set(record, secondsLeft(record.session, context));
+    await writeCookies(context, record);
+    issued.set(requestKey(context), record.session.id);
+  };
+
+  const currentId = async (context: AuthContext, cookies?: Record<string, string>): Promise<string | undefined> => {
+    const key = requestKey(context);
+    if (issued.has(key)) {
+      return issued.get(key) ?? undefined;
+    }
+    return unsign((cookies ?? access.read(context))[cookie.name]);
+  };
+
+  const resolve = async (context: AuthContext, cookies?: Record<string, string>): Promise<SessionRecord<TData> | undefined> => {
+    const id = await currentId(context, cookies);
+    const record = id ? await store.get(id) : undefined;
+    if (!record) {
+      return undefined;
+    }
+    const { expiresAt } = record.session;
+    if (expiresAt && expiresAt.getTime() <= context.now().getTime()) {
+      await store.delete(record.session.id);
+      return undefined;
+    }
+    return record;
+  };
+
+  const rotate = async (context: AuthContext, record: SessionRecord<TData>): Promise<AuthSession<TData>> => {
+    const next: SessionRecord<TData> = { ...record, session: { ...record.session, id: randomToken() }, csrfToken: randomToken() };
+    await store.delete(record.session.id);
+    await issue(context, next);
+    return next.session;
+  };
+
+  const renew = async (context: AuthContext, record: SessionRecord<TData>): Promise<AuthSession<TData>> => {
+    const { ttlSeconds } = record;
+    const left = secondsLeft(record.session, context);
+    if (!sliding || ttlSeconds === undefined || left === undefined || left * 2 >= ttlSeconds) {
+      return record.session;
+    }
+    const renewed: SessionRecord<TData> = {
+      ...record,
+      session: { ...record.session, expiresAt: new Date(context.now().getTime() + ttlSeconds * 1000) }
+    };
+    try {
+      await writeCookies(context, renewed);
+    } catch (error) {
+      // E.g. a view context without a reply: the session stays valid until its current expiry.
+      context.logger.debug('session renewal skipped', { error });
+      return record.session;
+    }
+    await store.set(renewed, ttlSeconds);
+    return renewed.session;
+  };
+
+  const getSession = async (context: AuthContext) => {
+    const record = await resolve(context);
+    return record ? renew(context, record) : null;
+  };
+
+  return {
+    store,
+    getSession,
+    createSession: async (input, context) => {
+      // A fresh id on sign-in, so an id planted before authentication is worthless afterwards.
+      const previous = await resolve(context);
+      if (previous) {
+        await store.delete(previous.session.id);
+      }
+      const createdAt = context.now();
+      const ttlSeconds = input.expiresAt ? undefined : (input.expiresInSeconds ?? defaultTtl);
+      const expiresAt = input.expiresAt ?? new Date(createdAt.getTime() + (ttlSeconds ?? 0) * 1000);
+      if (expiresAt.getTime() <= createdAt.getTime()) {
+        throw new Error('Session expiry must be in the future.');
+      }
+      const record: SessionRecord<TData> = {
+        session: { id: randomToken(), userId: input.userId, data: input.data, createdAt, expiresAt },
+        ttlSeconds,
+        csrfToken: randomToken()
+      };
+      await issue(context, record);
+      return record.session;
+    },
+    invalidateSession: async (sessionId, context) => {
+      await store.delete(sessionId);
+      if ((await currentId(context)) === sessionId) {
+        access.write(context, serialize(cookie.name, '', 0, true));
+        access.write(context, serialize(cookie.csrfName, '', 0, false));
+        issued.set(requestKey(context), null);
+      }
+    },
+    getCsrfToken: async (context) => {
+      const record = await resolve(context);
+      if (record) {
+        return sign(record.csrfToken);
+      }
+      // Signed-out visitors get a token of their own, so sign-in and sign-up forms are covered too.
+      const existing = access.read(context)[cookie.csrfName];
+      if (existing && (await unsign(existing))) {
+        return existing;
+      }
+      const token = await sign(randomToken());
+      access.write(context, serialize(cookie.csrfName, token, undefined, false));
+      return token;
+    },
+    verifyCsrfToken: async (context, request) => {
+      const cookies = request.headers.cookie !== undefined ? parseCookieHeader(request.headers.cookie) : access.read(context);
+      const field = typeof request.body === 'object' && request.body !== null ? (request.body as Record<string, unknown>)[csrfField] : undefined;
+      const submitted = request.headers[csrfHeader] ?? (typeof field === 'string' ? field : undefined);
+      const echoed = cookies[cookie.csrfName];
+      // Signed-out, this is plain double-submit: a sibling subdomain can plant a signed token it
+      // fetched for itself. Signed in, the token must also be the session's; `__Host-` names stop planting.
+      const token = submitted && echoed && safeEqual(submitted, echoed) ? await unsign(echoed) : undefined;
+      if (!token) {
+        return { allowed: false, reason: 'Missing or invalid CSRF token' };
+      }
+      const record = await resolve(context, cookies);
+      if (record && !safeEqual(token, record.csrfToken)) {
+        return { allowed: false, reason: 'Missing or invalid CSRF token' };
+      }
+      return { allowed: true };
+    },
+    verifyPermissions: async (context, permissions) => {
+      const session = await getSession(context);
+      if (!session) {
+        return { allowed: false, reason: 'No active session' };
+      }
+      const held = getPermissions(session);
+      const missing = permissions.filter((permission) => !held.includes(permission));
+      return missing.length === 0 ? { allowed: true } : { allowed: false, reason: `Missing permissions: ${missing.join(', ')}` };
+    },
+    updateSession: async (context, data) => {
+      const record = await resolve(context);
+      if (!record) {
+        return null;
+      }
+      const updated: SessionRecord<TData> = { ...record, session: { ...record.session, data } };
+      if (JSON.stringify(privileges(record.session)) !== JSON.stringify(privileges(updated.session))) {
+        return rotate(context, updated);
+      }
+      await store.set(updated, secondsLeft(updated.session, context));
+      return updated.session;
+    },
+    rotateSession: async (context) => {
+      const record = await resolve(context);
+      return record ? rotate(context, record) : null;
+    }
+  };
+}
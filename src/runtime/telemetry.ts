@@ -0,0 +1,368 @@
+import type {
+  JobContext,
+  JobSpec,
+  Metrics,
+  MetricsProviderCapability,
+  ModuleDefinition,
+  ModuleErrorCode,
+  ModuleLifecycleHook,
+  RequestContext,
+  RouteHandlerResult,
+  RouteResponses,
+  RouteSpec,
+  Span,
+  SpanContext,
+  SSRContext,
+  TelemetryAttributes,
+  Tracer,
+  TracerProviderCapability,
+  ViewSpec
+} from '../index.js';
+import { ModuleException, statusForErrors } from './errors.js';
+import { defaultStatus } from './responses.js';
+
+export interface InstrumentOptions<TContext = RequestContext> {
+  /** Defaults to `context.tracer` (`TracerProviderCapability`). */
+  readonly tracer?: Tracer;
+  /** Defaults to `context.metrics` (`MetricsProviderCapability`). */
+  readonly metrics?: Metrics;
+  /** Parent of the span, typically `parseTraceparent` of the incoming `traceparent` header. */
+  readonly parent?: (context: TContext) => SpanContext | undefined;
+  /** Added to every span and measurement, e.g. `{ module: manifest.name }`. */
+  readonly attributes?: TelemetryAttributes;
+}
+
+/** Contexts the routes, views, and jobs of an instrumented module run with. */
+export type InstrumentedContext = RequestContext | SSRContext | JobContext;
+
+export interface InstrumentLifecycleOptions extends Omit<InstrumentOptions, 'parent'> {
+  readonly module: string;
+  readonly hook: 'init' | 'dispose';
+  readonly now?: () => Date;
+}
+
+export interface RecordedSpan {
+  readonly name: string;
+  readonly context: SpanContext;
+  readonly parentSpanId?: string;
+  readonly attributes: TelemetryAttributes;
+  readonly status: 'unset' | 'ok' | 'error';
+  readonly statusMessage?: string;
+  readonly exceptions: readonly { readonly name: string; readonly message: string }[];
+  readonly startTime: Date;
+  readonly endTime: Date;
+  readonly durationMs: number;
+}
+
+export interface InMemoryTracer extends Tracer {
+  /** Spans in the order they ended. */
+  readonly spans: readonly RecordedSpan[];
+  clear(): void;
+}
+
+export interface MetricMeasurement {
+  readonly kind: 'counter' | 'histogram';
+  readonly name: string;
+  readonly value: number;
+  readonly attributes: TelemetryAttributes;
+}
+
+export interface InMemoryMetrics extends Metrics {
+  readonly measurements: readonly MetricMeasurement[];
+  /** Sum of the counter, or of the recorded values, matching every given attribute. */
+  total(name: string, attributes?: TelemetryAttributes): number;
+  clear(): void;
+}
+
+export interface InMemoryTelemetryOptions {
+  readonly now?: () => Date;
+  /** Returns `bytes` random bytes as hex; replace it for deterministic ids. */
+  readonly generateId?: (bytes: number) => string;
+}
+
+interface Outcome {
+  readonly status?: number;
+  readonly code?: ModuleErrorCode;
+}
+
+interface Telemetry {
+  readonly tracer?: Tracer;
+  readonly metrics?: Metrics;
+  readonly parent?: SpanContext;
+  readonly now: () => Date;
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parses a W3C `traceparent` header. Returns `undefined` for anything malformed, including
+ * all-zero ids, version `ff`, and trailing fields on version `00`.
+ */
+export function parseTraceparent(header: string | null | undefined): SpanContext | undefined {
+  const match = header ? TRACEPARENT.exec(header.trim().toLowerCase()) : null;
+  if (!match) {
+    return undefined;
+  }
+  const [, version, traceId, spanId, flags, rest] = match;
+  if (version === 'ff' || (version === '00' && rest !== undefined) || /^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+    return undefined;
+  }
+  return { traceId, spanId, traceFlags: Number.parseInt(flags, 16) };
+}
+
+/** Formats a span context as a version `00` `traceparent` header for outgoing requests. */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${(context.traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+const randomId = (bytes: number): string =>
+  Array.from(globalThis.crypto.getRandomValues(new Uint8Array(bytes)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const matchesAttributes = (actual: TelemetryAttributes, expected: TelemetryAttributes): boolean =>
+  Object.entries(expected).every(([key, value]) => actual[key] === value);
+
+/** `Tracer` that keeps ended spans in memory, for tests and local debugging. */
+export function createInMemoryTracer(options: InMemoryTelemetryOptions = {}): InMemoryTracer {
+  const now = options.now ?? (() => new Date());
+  const generateId = options.generateId ?? randomId;
+  const spans: RecordedSpan[] = [];
+
+  return {
+    spans,
+    startSpan: (name, spanOptions = {}) => {
+      const context: SpanContext = {
+        traceId: spanOptions.parent?.traceId ?? generateId(16),
+        spanId: generateId(8),
+        traceFlags: spanOptions.parent?.traceFlags ?? 1
+      };
+      const startTime = spanOptions.startTime ?? now();
+      const attributes: Record<string, string | number | boolean> = { ...spanOptions.attributes };
+      const exceptions: { name: string; message: string }[] = [];
+      let status: RecordedSpan['status'] = 'unset';
+      let statusMessage: string | undefined;
+      let ended = false;
+
+      const span: Span = {
+        name,
+        context,
+        setAttribute: (key, value) => {
+          attributes[key] = value;
+        },
+        setStatus: (next, message) => {
+          status = next;
+          statusMessage = message;
+        },
+        recordException: (error) => {
+          exceptions.push(error instanceof Error ? { name: error.name, message: error.message } : { name: 'Error', message: String(error) });
+        },
+        end: (endTime = now()) => {
+          if (ended) {
+            return;
+          }
+          ended = true;
+          spans.push({
+            name,
+            context,
+            parentSpanId: spanOptions.parent?.spanId,
+            attributes: { ...attributes },
+            status,
+            statusMessage,
+            exceptions: [...exceptions],
+            startTime,
+            endTime,
+            durationMs: endTime.getTime() - startTime.getTime()
+          });
+        }
+      };
+      return span;
+    },
+    clear: () => {
+      spans.length = 0;
+    }
+  };
+}
+
+/** `Metrics` that keeps every measurement in memory, for tests and local debugging. */
+export function createInMemoryMetrics(): InMemoryMetrics {
+  const measurements: MetricMeasurement[] = [];
+  return {
+    measurements,
+    increment: (name, value = 1, attributes = {}) => {
+      measurements.push({ kind: 'counter', name, value, attributes: { ...attributes } });
+    },
+    record: (name, value, attributes = {}) => {
+      measurements.push({ kind: 'histogram', name, value, attributes: { ...attributes } });
+    },
+    total: (name, attributes = {}) =>
+      measurements
+        .filter((measurement) => measurement.name === name && matchesAttributes(measurement.attributes, attributes))
+        .reduce((sum, measurement) => sum + measurement.value, 0),
+    clear: () => {
+      measurements.length = 0;
+    }
+  };
+}
+
+// Spans started by instrumented code default to the surrounding span as their parent.
+const childTracer = (tracer: Tracer, parent: Span): Tracer => ({
+  startSpan: (name, options = {}) => tracer.startSpan(name, { ...options, parent: options.parent ?? parent.context })
+});
+
+const resolveTelemetry = <TContext>(context: TContext, options: InstrumentOptions<TContext>, now: () => Date): Telemetry => {
+  const capabilities = (context ?? {}) as Partial<TracerProviderCapability & MetricsProviderCapability>;
+  return {
+    tracer: options.tracer ?? capabilities.tracer,
+    metrics: options.metrics ?? capabilities.metrics,
+    parent: options.parent?.(context),
+    now
+  };
+};
+
+const thrownOutcome = (error: unknown, status: number | undefined): Outcome =>
+  error instanceof ModuleException ? { status: error.status, code: error.code } : { status, code: 'internal' };
+
+/**
+ * Runs `run` inside a span named `<kind> <name>` and records `<kind>.duration` in milliseconds.
+ * Both carry `status` and `error.code` when known; the span is an error for 5xx, or for any thrown
+ * error where there is no status.
+ */
+const measure = async <TResult>(
+  telemetry: Telemetry,
+  kind: 'route' | 'view' | 'job' | 'lifecycle',
+  name: string,
+  attributes: TelemetryAttributes,
+  run: (tracer: Tracer | undefined) => Promise<TResult> | TResult,
+  outcome: (result: TResult) => Outcome,
+  failureStatus?: number
+): Promise<TResult> => {
+  const { tracer, metrics } = telemetry;
+  const startTime = telemetry.now();
+  const span = tracer?.startSpan(`${kind} ${name}`, { parent: telemetry.parent, attributes, startTime });
+
+  const finish = (result: Outcome, error?: unknown) => {
+    const endTime = telemetry.now();
+    // With a status (routes, views) only 5xx is a failure, so a thrown `conflict()` matches a returned one.
+    const failed = result.status !== undefined ? result.status >= 500 : error !== undefined;
+    const recorded: Record<string, string | number | boolean> = { ...attributes, outcome: failed ? 'error' : 'ok' };
+    if (result.status !== undefined) {
+      recorded.status = result.status;
+    }
+    if (result.code !== undefined) {
+      recorded['error.code'] = result.code;
+    }
+    if (span) {
+      for (const [key, value] of Object.entries(recorded)) {
+        span.setAttribute(key, value);
+      }
+      if (error !== undefined) {
+        span.recordException(error);
+      }
+      span.setStatus(failed ? 'error' : 'ok', error instanceof Error ? error.message : undefined);
+      span.end(endTime);
+    }
+    metrics?.record(`${kind}.duration`, endTime.getTime() - startTime.getTime(), recorded);
+  };
+
+  try {
+    const result = await run(tracer && span ? childTracer(tracer, span) : tracer);
+    finish(outcome(result));
+    return result;
+  } catch (error) {
+    finish(thrownOutcome(error, failureStatus), error);
+    throw error;
+  }
+};
+
+const withTracer = <TContext>(context: TContext, tracer: Tracer | undefined): TContext =>
+  tracer ? ({ ...context, tracer } as TContext) : context;
+
+/**
+ * Wraps a route's handler in a span and a `route.duration` measurement, attributed with the
+ * route `name`, method, status, and the first error's `code`. A thrown error counts as 500
+ * (or the `ModuleException`'s status) and is rethrown unchanged.
+ */
+export function instrumentRoute<TSpec extends RouteSpec<any, any, any, any, any, any>>(spec: TSpec, options: InstrumentOptions = {}): TSpec {
+  const { definition, schemas } = spec;
+  const attributes: TelemetryAttributes = { ...options.attributes, route: definition.name, method: definition.method, path: definition.path };
+  const outcome = (result: RouteHandlerResult<RouteResponses>): Outcome =>
+    'errors' in result && Array.isArray(result.errors)
+      ? { status: result.status ?? statusForErrors(result.errors), code: result.errors[0]?.code }
+      : { status: result.status ?? defaultStatus(schemas.response, definition) };
+
+  const handler = (context: RequestContext) =>
+    measure(
+      resolveTelemetry(context, options, context.now),
+      'route',
+      definition.name,
+      attributes,
+      (tracer) => spec.handler(withTracer(context, tracer)),
+      outcome,
+      500
+    );
+  return { ...spec, handler } as TSpec;
+}
+
+/** Wraps a view's loader like `instrumentRoute`; a successful load is recorded as status 200. */
+export function instrumentView<TSpec extends ViewSpec<any, any, any>>(spec: TSpec, options: InstrumentOptions<SSRContext> = {}): TSpec {
+  const { definition } = spec;
+  const attributes: TelemetryAttributes = { ...options.attributes, view: definition.name, path: definition.path };
+  const load = (context: SSRContext) =>
+    measure(
+      resolveTelemetry(context, options, context.now),
+      'view',
+      definition.name,
+      attributes,
+      (tracer) => spec.load(withTracer(context, tracer)),
+      () => ({ status: 200 }),
+      500
+    );
+  return { ...spec, load } as TSpec;
+}
+
+/** Wraps a job's handler in a span and a `job.duration` measurement. */
+export function instrumentJob<TSpec extends JobSpec<any, any>>(spec: TSpec, options: InstrumentOptions<JobContext> = {}): TSpec {
+  const { definition } = spec;
+  const attributes: TelemetryAttributes = { ...options.attributes, job: definition.name };
+  const handler = (context: JobContext & Record<string, unknown>) =>
+    measure(
+      resolveTelemetry(context, options, context.now),
+      'job',
+      definition.name,
+      attributes,
+      (tracer) => spec.handler(withTracer(context, tracer)),
+      () => ({})
+    );
+  return { ...spec, handler } as TSpec;
+}
+
+/** Wraps an `init` or `dispose` hook in a span and a `lifecycle.duration` measurement. */
+export function instrumentLifecycleHook<THook extends ModuleLifecycleHook<any>>(hook: THook, options: InstrumentLifecycleOptions): THook {
+  const attributes: TelemetryAttributes = { ...options.attributes, module: options.module, hook: options.hook };
+  const instrumented = (context: Parameters<THook>[0]) =>
+    measure(
+      resolveTelemetry(context, options, options.now ?? (() => new Date())),
+      'lifecycle',
+      `${options.module} ${options.hook}`,
+      attributes,
+      () => hook(context),
+      () => ({})
+    );
+  return instrumented as THook;
+}
+
+/** Instruments every route, view, job, and lifecycle hook of a module, attributed with the module name. */
+export function instrumentModule<TModule extends ModuleDefinition<any, any, any, any, any>>(
+  module: TModule,
+  options: InstrumentOptions<InstrumentedContext> = {}
+): TModule {
+  const name = module.manifest.name;
+  const scoped: InstrumentOptions<InstrumentedContext> = { ...options, attributes: { ...options.attributes, module: name } };
+  return {
+    ...module,
+    routes: module.routes?.map((route: RouteSpec<any, any, any, any, any, any>) => instrumentRoute(route, scoped)),
+    views: module.views?.map((view: ViewSpec<any, any, any>) => instrumentView(view, scoped)),
+    jobs: module.jobs?.map((job) => instrumentJob(job, scoped)),
+    init: module.init && instrumentLifecycleHook(module.init, { ...options, module: name, hook: 'init' }),
+    dispose: module.dispose && instrumentLifecycleHook(module.dispose, { ...options, module: name, hook: 'dispose' })
+  };
+}
@@ -0,0 +1,127 @@
+import type { z } from 'zod';
+
+import type {
+  DatabaseProvider,
+  EventBus,
+  EventSpec,
+  Logger,
+  PublishOptions,
+  Transactional,
+  TransactionIsolationLevel,
+  TransactionScope
+} from '../index.js';
+
+/** The parts of a request or job context a transaction replaces. */
+export interface TransactionalContext {
+  readonly db?: unknown;
+  readonly events?: EventBus;
+  readonly transaction?: TransactionScope;
+  readonly logger?: Logger;
+}
+
+export interface RunInTransactionOptions<TResult> {
+  readonly isolationLevel?: TransactionIsolationLevel;
+  /** Rolls back although `callback` resolved, e.g. for a `RouteErrorResponse`. The result is still returned. */
+  readonly shouldRollback?: (result: TResult) => boolean;
+}
+
+interface MutableScope extends TransactionScope {
+  readonly callbacks: (() => Promise<void> | void)[];
+}
+
+// Thrown inside `run` so the provider rolls back, then unwrapped into the handler's result.
+class RollbackSignal<TResult> {
+  constructor(readonly result: TResult) {}
+}
+
+/** `isolationLevel` for a `transactional` flag, or `undefined` when it is off. */
+export const isolationLevelOf = (transactional: Transactional | undefined): TransactionIsolationLevel | undefined =>
+  typeof transactional === 'string' ? transactional : undefined;
+
+// Publishes are validated right away, so a bad payload still fails (and rolls back) the handler.
+const bufferEvents = (events: EventBus, scope: MutableScope): EventBus => ({
+  publish: async <TPayload extends z.ZodTypeAny>(event: EventSpec<any, TPayload>, payload: z.input<TPayload>, options?: PublishOptions) => {
+    const parsed = event.payload.safeParse(payload);
+    if (!parsed.success) {
+      throw new Error(`Event "${event.definition.name}" payload failed validation.`);
+    }
+    scope.afterCommit(() => events.publish(event, payload, options));
+  },
+  subscribe: events.subscribe
+});
+
+/**
+ * Runs `callback` in a database transaction with `db` swapped for the transaction client and
+ * `transaction` set. Inside an existing transaction it opens a savepoint instead (or joins the
+ * outer transaction when the provider has no `savepoint`). `events.publish` calls and
+ * `afterCommit` callbacks are held back until the outermost transaction commits, and dropped
+ * on rollback.
+ */
+export async function runInTransaction<TContext extends TransactionalContext, TResult>(
+  database: DatabaseProvider<unknown>,
+  context: TContext,
+  callback: (context: TContext) => Promise<TResult> | TResult,
+  options: RunInTransactionOptions<TResult> = {}
+): Promise<TResult> {
+  const parent = context.transaction;
+  const unit = parent ? database.savepoint?.(parent.client) : database.transaction?.({ isolationLevel: options.isolationLevel });
+  if (!unit) {
+    if (parent) {
+      return callback(context);
+    }
+    throw new Error('Database provider does not support transactions.');
+  }
+
+  let committed = false;
+  let result: TResult;
+  let scope: MutableScope | undefined;
+  try {
+    result = await unit.run(async (client) => {
+      const callbacks: (() => Promise<void> | void)[] = [];
+      scope = {
+        client,
+        depth: parent ? parent.depth + 1 : 0,
+        isolationLevel: parent ? parent.isolationLevel : options.isolationLevel,
+        callbacks,
+        afterCommit: (entry) => {
+          callbacks.push(entry);
+        }
+      };
+      const value = await callback({
+        ...context,
+        db: client,
+        transaction: scope,
+        events: context.events ? bufferEvents(context.events, scope) : undefined
+      });
+      if (options.shouldRollback?.(value)) {
+        throw new RollbackSignal(value);
+      }
+      return value;
+    });
+    committed = true;
+  } catch (error) {
+    if (!(error instanceof RollbackSignal)) {
+      throw error;
+    }
+    result = error.result as TResult;
+  }
+
+  if (committed && scope) {
+    if (parent) {
+      // A released savepoint only takes effect with the outer commit.
+      for (const entry of scope.callbacks) {
+        parent.afterCommit(entry);
+      }
+    } else {
+      for (const entry of scope.callbacks) {
+        try {
+          await entry();
+        } catch (error) {
+          // The transaction is already committed, so the handler's result stands.
+          context.logger?.error('after-commit callback failed', { error });
+        }
+      }
+    }
+  }
+  return result;
+}
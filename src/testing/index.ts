@@ -0,0 +1,551 @@
+import type { z } from 'zod';
+
+import type {
+  AuthProvider,
+  AuthProviderCapability,
+  AuthSession,
+  CacheProvider,
+  CacheProviderCapability,
+  CreateSessionInput,
+  DatabaseProvider,
+  EnvAccessor,
+  EventBus,
+  HttpMethod,
+  Logger,
+  LogLevel,
+  MetricsProviderCapability,
+  ModuleDefinition,
+  ModuleError,
+  MiddlewareSpec,
+  QueueMessage,
+  QueueProvider,
+  QueueProviderCapability,
+  RequestContext,
+  RouteResponseVariant,
+  RouteSpec,
+  SSRContext,
+  TracerProviderCapability,
+  ViewSpec
+} from '../index.js';
+import { checkAccess } from '../runtime/auth.js';
+import { createDispatcher, type DispatchQuery } from '../runtime/dispatcher.js';
+import { zodIssueDetails } from '../runtime/errors.js';
+import { createInMemoryEventBus } from '../runtime/event-bus.js';
+import { parsePathPattern } from '../runtime/paths.js';
+import { isResponseMap, responseForStatus } from '../runtime/responses.js';
+import { createInMemoryMetrics, createInMemoryTracer, type InMemoryMetrics, type InMemoryTracer } from '../runtime/telemetry.js';
+
+const LOG_LEVELS: readonly LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+/** Default clock start for test contexts, so timestamps are stable across runs. */
+export const TEST_EPOCH = new Date('2024-01-01T00:00:00.000Z');
+
+export interface TestClock {
+  now(): Date;
+  /** Moves the clock forward by `milliseconds`. */
+  advance(milliseconds: number): void;
+  set(date: Date | string | number): void;
+}
+
+export function createTestClock(start: Date | string | number = TEST_EPOCH): TestClock {
+  let current = new Date(start).getTime();
+  return {
+    now: () => new Date(current),
+    advance: (milliseconds) => {
+      current += milliseconds;
+    },
+    set: (date) => {
+      current = new Date(date).getTime();
+    }
+  };
+}
+
+export interface LogEntry {
+  readonly level: LogLevel;
+  readonly message: string;
+  /** Child bindings from `with()` merged with the call's metadata. */
+  readonly metadata: Record<string, unknown>;
+}
+
+export interface MemoryLogger extends Logger {
+  /** Entries written by this logger and every child created through `with()`. */
+  readonly entries: readonly LogEntry[];
+  with(bindings: Record<string, unknown>): MemoryLogger;
+  clear(): void;
+}
+
+export function createMemoryLogger(options: { readonly level?: LogLevel } = {}): MemoryLogger {
+  const level = options.level ?? 'trace';
+  const entries: LogEntry[] = [];
+
+  const build = (bindings: Record<string, unknown>): MemoryLogger => {
+    const log = (entryLevel: LogLevel, message: string, metadata?: Record<string, unknown>) => {
+      if (LOG_LEVELS.indexOf(entryLevel) >= LOG_LEVELS.indexOf(level)) {
+        entries.push({ level: entryLevel, message, metadata: { ...bindings, ...metadata } });
+      }
+    };
+    return {
+      level,
+      entries,
+      log,
+      debug: (message, metadata) => log('debug', message, metadata),
+      info: (message, metadata) => log('info', message, metadata),
+      warn: (message, metadata) => log('warn', message, metadata),
+      error: (message, metadata) => log('error', message, metadata),
+      with: (extra) => build({ ...bindings, ...extra }),
+      clear: () => {
+        entries.length = 0;
+      }
+    };
+  };
+
+  return build({});
+}
+
+export interface LogMatcher {
+  readonly level?: LogLevel;
+  readonly message?: string | RegExp;
+  /** Every listed key must be present in the entry's metadata with an equal (`Object.is`) value. */
+  readonly metadata?: Record<string, unknown>;
+}
+
+const matchesLog = (entry: LogEntry, matcher: LogMatcher): boolean =>
+  (matcher.level === undefined || entry.level === matcher.level) &&
+  (matcher.message === undefined ||
+    (typeof matcher.message === 'string' ? entry.message === matcher.message : matcher.message.test(entry.message))) &&
+  Object.entries(matcher.metadata ?? {}).every(([key, value]) => Object.is(entry.metadata[key], value));
+
+const describeMatcher = (matcher: LogMatcher): string =>
+  [matcher.level ?? '*', matcher.message === undefined ? '*' : String(matcher.message), matcher.metadata ? JSON.stringify(matcher.metadata) : '']
+    .filter(Boolean)
+    .join(' ');
+
+export function findLogs(logger: Pick<MemoryLogger, 'entries'>, matcher: LogMatcher): LogEntry[] {
+  return logger.entries.filter((entry) => matchesLog(entry, matcher));
+}
+
+/** Throws unless at least one captured entry matches; returns the first match. */
+export function assertLogged(logger: Pick<MemoryLogger, 'entries'>, matcher: LogMatcher): LogEntry {
+  const [entry] = findLogs(logger, matcher);
+  if (!entry) {
+    const captured = logger.entries.map((item) => `  ${item.level} ${item.message}`).join('\n') || '  (none)';
+    throw new Error(`Expected a log entry matching ${describeMatcher(matcher)}. Captured:\n${captured}`);
+  }
+  return entry;
+}
+
+export function assertNotLogged(logger: Pick<MemoryLogger, 'entries'>, matcher: LogMatcher): void {
+  const matches = findLogs(logger, matcher);
+  if (matches.length > 0) {
+    throw new Error(`Expected no log entry matching ${describeMatcher(matcher)}, found ${matches.length}.`);
+  }
+}
+
+export function createMemoryEnv(values: Record<string, string | undefined> = {}): EnvAccessor {
+  const store = { ...values };
+  return {
+    get: (name) => store[name],
+    require: (name) => {
+      const value = store[name];
+      if (value === undefined) {
+        throw new Error(`Missing required environment variable "${name}".`);
+      }
+      return value;
+    },
+    entries: () => ({ ...store })
+  };
+}
+
+export interface MemoryCache<TValue = unknown> extends CacheProvider<string, TValue> {
+  readonly entries: ReadonlyMap<string, { readonly value: TValue; readonly expiresAt?: Date }>;
+  clear(): void;
+}
+
+/** `CacheProvider` backed by a `Map`; `ttlSeconds` expiry follows the injected clock. */
+export function createMemoryCache<TValue = unknown>(options: { readonly now?: () => Date } = {}): MemoryCache<TValue> {
+  const now = options.now ?? (() => new Date());
+  const entries = new Map<string, { value: TValue; expiresAt?: Date }>();
+
+  return {
+    entries,
+    get: (key) => {
+      const entry = entries.get(key);
+      if (entry?.expiresAt && entry.expiresAt.getTime() <= now().getTime()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry?.value;
+    },
+    set: (key, value, setOptions) => {
+      const ttl = setOptions?.ttlSeconds;
+      entries.set(key, { value, expiresAt: ttl !== undefined ? new Date(now().getTime() + ttl * 1000) : undefined });
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    clear: () => entries.clear()
+  };
+}
+
+export interface MemoryQueue<TPayload = unknown> extends QueueProvider<TPayload> {
+  /** Messages not yet processed successfully, including delayed ones. */
+  readonly pending: readonly (QueueMessage<TPayload> & { readonly availableAt: Date })[];
+}
+
+/**
+ * `QueueProvider` that holds messages until `process` is called. Each call handles the
+ * messages that are due on the injected clock; failed messages stay queued with
+ * `attempts` incremented.
+ */
+export function createMemoryQueue<TPayload = unknown>(
+  options: { readonly now?: () => Date; readonly generateId?: () => string } = {}
+): MemoryQueue<TPayload> {
+  const now = options.now ?? (() => new Date());
+  let sequence = 0;
+  const generateId = options.generateId ?? (() => `message-${(sequence += 1)}`);
+  const pending: (QueueMessage<TPayload> & { availableAt: Date })[] = [];
+
+  return {
+    pending,
+    enqueue: (payload, enqueueOptions) => {
+      const enqueuedAt = now();
+      const id = generateId();
+      pending.push({
+        id,
+        payload,
+        attempts: 0,
+        enqueuedAt,
+        availableAt: new Date(enqueuedAt.getTime() + (enqueueOptions?.delaySeconds ?? 0) * 1000)
+      });
+      return id;
+    },
+    process: async (handler) => {
+      const due = pending.filter((message) => message.availableAt.getTime() <= now().getTime());
+      for (const message of due) {
+        const index = pending.indexOf(message);
+        const attempt = { ...message, attempts: message.attempts + 1 };
+        try {
+          await handler(attempt);
+          pending.splice(index, 1);
+        } catch {
+          pending[index] = attempt;
+        }
+      }
+    }
+  };
+}
+
+export interface MemoryAuth<TData extends Record<string, unknown> = Record<string, unknown>> extends AuthProvider<AuthSession<TData>> {
+  readonly sessions: ReadonlyMap<string, AuthSession<TData>>;
+  /** Creates a session and makes it the one `getSession` returns. */
+  signIn(input: CreateSessionInput<TData>): AuthSession<TData>;
+  signOut(): void;
+}
+
+/**
+ * `AuthProvider` for tests: there is no cookie handling, the most recent `signIn` or
+ * `createSession` is the active session. `verifyPermissions` reads `session.data.permissions`.
+ */
+export function createMemoryAuth<TData extends Record<string, unknown> = Record<string, unknown>>(
+  options: { readonly now?: () => Date; readonly csrfToken?: string } = {}
+): MemoryAuth<TData> {
+  const now = options.now ?? (() => new Date());
+  const sessions = new Map<string, AuthSession<TData>>();
+  let activeId: string | undefined;
+  let sequence = 0;
+
+  const signIn = (input: CreateSessionInput<TData>): AuthSession<TData> => {
+    const createdAt = now();
+    const session: AuthSession<TData> = {
+      id: `session-${(sequence += 1)}`,
+      userId: input.userId,
+      data: input.data,
+      createdAt,
+      expiresAt: input.expiresInSeconds !== undefined ? new Date(createdAt.getTime() + input.expiresInSeconds * 1000) : undefined
+    };
+    sessions.set(session.id, session);
+    activeId = session.id;
+    return session;
+  };
+
+  return {
+    sessions,
+    signIn,
+    signOut: () => {
+      activeId = undefined;
+    },
+    getSession: () => {
+      const session = activeId ? sessions.get(activeId) : undefined;
+      if (!session || (session.expiresAt && session.expiresAt.getTime() <= now().getTime())) {
+        return null;
+      }
+      return session;
+    },
+    createSession: (input) => signIn(input),
+    invalidateSession: (sessionId) => {
+      sessions.delete(sessionId);
+      if (activeId === sessionId) {
+        activeId = undefined;
+      }
+    },
+    getCsrfToken: () => options.csrfToken ?? 'test-csrf-token',
+    verifyPermissions: (_context, permissions) => {
+      const session = activeId ? sessions.get(activeId) : undefined;
+      const granted = (session?.data as { permissions?: unknown } | undefined)?.permissions;
+      const held = Array.isArray(granted) ? granted : [];
+      const missing = permissions.filter((permission) => !held.includes(permission));
+      return missing.length === 0 ? { allowed: true } : { allowed: false, reason: `Missing permissions: ${missing.join(', ')}` };
+    }
+  };
+}
+
+export interface TestContext
+  extends RequestContext<unknown, unknown, MemoryAuth, AuthSession, unknown, EnvAccessor, MemoryLogger>,
+    AuthProviderCapability,
+    CacheProviderCapability,
+    QueueProviderCapability,
+    TracerProviderCapability,
+    MetricsProviderCapability {
+  readonly auth: MemoryAuth;
+  readonly cache: MemoryCache;
+  readonly queue: MemoryQueue;
+  readonly tracer: InMemoryTracer;
+  readonly metrics: InMemoryMetrics;
+  readonly events: EventBus;
+  readonly clock: TestClock;
+}
+
+export interface CreateTestContextOptions {
+  readonly env?: Record<string, string | undefined>;
+  /** Start of the deterministic clock. Defaults to `TEST_EPOCH`. */
+  readonly now?: Date | string | number;
+  readonly requestId?: string;
+  readonly logLevel?: LogLevel;
+  readonly db?: unknown;
+  readonly request?: unknown;
+  readonly reply?: unknown;
+}
+
+/**
+ * Builds a `RequestContext` wired to in-memory providers that share one deterministic clock.
+ * Spread extra fields onto the result for module-specific context types.
+ */
+export function createTestContext(options: CreateTestContextOptions = {}): TestContext {
+  const clock = createTestClock(options.now);
+  const logger = createMemoryLogger({ level: options.logLevel });
+  return {
+    request: options.request,
+    reply: options.reply,
+    auth: createMemoryAuth({ now: clock.now }),
+    session: null,
+    db: options.db,
+    env: createMemoryEnv(options.env),
+    logger,
+    requestId: options.requestId ?? 'test-request',
+    now: clock.now,
+    events: createInMemoryEventBus({ now: clock.now, logger }),
+    cache: createMemoryCache({ now: clock.now }),
+    queue: createMemoryQueue({ now: clock.now }),
+    tracer: createInMemoryTracer({ now: clock.now }),
+    metrics: createInMemoryMetrics(),
+    clock
+  };
+}
+
+/** Derives an `SSRContext` for `loadView` from a test context. */
+export function createTestSSRContext(
+  context: TestContext,
+  input: { readonly url?: string | URL; readonly cookies?: Record<string, string>; readonly headers?: Record<string, string> } = {}
+): SSRContext<Record<string, string>, MemoryAuth, AuthSession, EnvAccessor, MemoryLogger> & TracerProviderCapability & MetricsProviderCapability {
+  return {
+    url: new URL(input.url ?? '/', 'http://localhost'),
+    params: {},
+    cookies: input.cookies ?? {},
+    headers: input.headers ?? {},
+    auth: context.auth,
+    session: context.session,
+    env: context.env,
+    logger: context.logger,
+    requestId: context.requestId,
+    now: context.now,
+    tracer: context.tracer,
+    metrics: context.metrics
+  };
+}
+
+type AnyRouteSpec = RouteSpec<any, any, any, any, any, string>;
+
+type InputField<TKey extends string, TSchema> = TSchema extends z.ZodTypeAny
+  ? { readonly [K in TKey]?: z.input<TSchema> }
+  : { readonly [K in TKey]?: undefined };
+
+export type InvokeRouteInput<TRoute extends AnyRouteSpec> = (TRoute extends RouteSpec<any, infer TParams, infer TQuery, infer TBody, any, any>
+  ? InputField<'params', TParams> & InputField<'query', TQuery> & InputField<'body', TBody>
+  : {}) & {
+  readonly headers?: Record<string, string>;
+  /** Defaults to a fresh `createTestContext()`. */
+  readonly context?: RequestContext;
+  /** Enforces `definition.auth`; defaults to `context.auth` when it is a test context's provider. */
+  readonly auth?: AuthProvider;
+  /** Module-level middleware to run in front of the route, as the orchestrator would. */
+  readonly middleware?: readonly MiddlewareSpec<any, any>[];
+  /** Runs `transactional` routes in its transactions. */
+  readonly database?: DatabaseProvider<unknown>;
+  /** Overrides the route's method, e.g. to exercise the HEAD fallback. */
+  readonly method?: HttpMethod;
+};
+
+export type InvokeRouteResult<TRoute extends AnyRouteSpec> =
+  | ({
+      readonly ok: true;
+      readonly headers: Record<string, string>;
+    } & (TRoute extends RouteSpec<any, any, any, any, infer TResponse, any>
+      ? TResponse extends z.ZodTypeAny
+        ? { readonly status: number; readonly body: z.infer<TResponse> }
+        : RouteResponseVariant<TResponse>
+      : { readonly status: number; readonly body: unknown }))
+  | {
+      readonly ok: false;
+      readonly status: number;
+      readonly headers: Record<string, string>;
+      readonly errors: readonly ModuleError[];
+    };
+
+const isAuthProvider = (value: unknown): value is AuthProvider =>
+  typeof value === 'object' && value !== null && typeof (value as AuthProvider).getSession === 'function';
+
+const fillPath = (path: string, params: Record<string, unknown> | undefined): string => {
+  const segments = parsePathPattern(path).segments.map((segment) => {
+    if (segment.kind === 'static') {
+      return segment.value;
+    }
+    const value = params?.[segment.name];
+    if (value === undefined || value === null) {
+      throw new Error(`invokeRoute: missing path parameter "${segment.name}" for ${path}.`);
+    }
+    return encodeURIComponent(String(value));
+  });
+  return `/${segments.join('/')}`;
+};
+
+const toDispatchQuery = (query: Record<string, unknown> | undefined): DispatchQuery | undefined =>
+  query
+    ? Object.fromEntries(
+        Object.entries(query)
+          .filter(([, value]) => value !== undefined && value !== null)
+          .map(([key, value]) => [key, Array.isArray(value) ? value.map(String) : String(value)])
+      )
+    : undefined;
+
+/**
+ * Runs a single route through the same pipeline as `createDispatcher`: auth, middleware,
+ * params/query/body/headers validation, error status mapping, and response validation.
+ * Params and query values are stringified first, as they would arrive over HTTP.
+ */
+export async function invokeRoute<TRoute extends AnyRouteSpec>(
+  spec: TRoute,
+  input: InvokeRouteInput<TRoute> = {} as InvokeRouteInput<TRoute>
+): Promise<InvokeRouteResult<TRoute>> {
+  const values = input as InvokeRouteInput<AnyRouteSpec> & {
+    readonly params?: Record<string, unknown>;
+    readonly query?: Record<string, unknown>;
+    readonly body?: unknown;
+  };
+  const context = values.context ?? createTestContext();
+  const module = {
+    manifest: { name: 'test', version: '0.0.0', kind: 'backend' },
+    routes: [spec],
+    middleware: values.middleware
+  } as unknown as ModuleDefinition<RequestContext, any, readonly RouteSpec<RequestContext, any, any, any, any>[], any>;
+  const dispatcher = createDispatcher(module, {
+    auth: values.auth ?? (isAuthProvider(context.auth) ? context.auth : undefined),
+    database: values.database
+  });
+
+  const result = await dispatcher.dispatch({
+    method: values.method ?? spec.definition.method,
+    path: fillPath(spec.definition.path, values.params),
+    query: toDispatchQuery(values.query),
+    headers: values.headers,
+    body: values.body,
+    context
+  });
+
+  const declared = isResponseMap(spec.schemas.response) && responseForStatus(spec.schemas.response, result.status);
+  if (result.status >= 400 && !declared) {
+    return { ok: false, status: result.status, headers: result.headers, errors: (result.body as { errors: ModuleError[] }).errors };
+  }
+  return { ok: true, status: result.status, headers: result.headers, body: result.body } as InvokeRouteResult<TRoute>;
+}
+
+type AnyViewSpec = ViewSpec<any, any, any>;
+
+export interface LoadViewInput<TView extends AnyViewSpec> {
+  readonly params?: TView extends ViewSpec<any, infer TParams, any> ? (TParams extends z.ZodTypeAny ? z.input<TParams> : undefined) : never;
+  readonly url?: string | URL;
+  readonly cookies?: Record<string, string>;
+  readonly headers?: Record<string, string>;
+  /** Defaults to an `SSRContext` derived from a fresh `createTestContext()`. */
+  readonly context?: SSRContext;
+  /** Enforces `definition.auth`; defaults to `context.auth` when it is a test context's provider. */
+  readonly auth?: AuthProvider;
+}
+
+export type LoadViewResult<TView extends AnyViewSpec> =
+  | { readonly ok: true; readonly data: TView extends ViewSpec<any, any, infer TData> ? z.infer<TData> : unknown }
+  | { readonly ok: false; readonly status: number; readonly errors: readonly ModuleError[] };
+
+/**
+ * Runs a view loader the way the orchestrator does: enforces `definition.auth`, validates
+ * `params`, calls `load`, and validates the returned data against `spec.data`.
+ */
+export async function loadView<TView extends AnyViewSpec>(spec: TView, input: LoadViewInput<TView> = {}): Promise<LoadViewResult<TView>> {
+  const base = input.context ?? createTestSSRContext(createTestContext(), input);
+  const rawParams = Object.fromEntries(Object.entries((input.params as Record<string, unknown>) ?? {}).map(([key, value]) => [key, String(value)]));
+  let context: SSRContext = { ...base, url: input.url ? new URL(input.url, base.url) : base.url, params: rawParams };
+
+  if (spec.definition.auth) {
+    const access = await checkAccess(spec.definition.auth, input.auth ?? (isAuthProvider(context.auth) ? context.auth : undefined), context);
+    if (!access.allowed) {
+      return { ok: false, status: access.status, errors: [access.error] };
+    }
+    context = { ...context, session: access.session };
+  }
+
+  let params: unknown = rawParams;
+  if (spec.params) {
+    const parsed = (spec.params as z.ZodTypeAny).safeParse(rawParams);
+    if (!parsed.success) {
+      return {
+        ok: false,
+        status: 400,
+        errors: [
+          { code: 'validation', message: 'Invalid view params', details: { source: 'params', ...zodIssueDetails(parsed.error) }, correlationId: context.requestId }
+        ]
+      };
+    }
+    params = parsed.data;
+  }
+
+  let data: unknown;
+  try {
+    data = await spec.load({ ...context, params });
+  } catch (error) {
+    context.logger.error('view loader failed', { view: spec.definition.name, error });
+    return { ok: false, status: 500, errors: [{ code: 'internal', message: 'View loader failed', correlationId: context.requestId }] };
+  }
+
+  const checked = (spec.data as z.ZodTypeAny).safeParse(data);
+  if (!checked.success) {
+    context.logger.error('view data failed validation', { view: spec.definition.name });
+    return {
+      ok: false,
+      status: 500,
+      errors: [
+        { code: 'validation', message: 'View data failed validation', details: { source: 'data', ...zodIssueDetails(checked.error) }, correlationId: context.requestId }
+      ]
+    };
+  }
+
+  return { ok: true, data: checked.data };
+}